@@ -1,51 +1,20 @@
 // catdoc/source/app.tsx
 import React, {useState, useEffect} from 'react';
 import {useInput, useApp, Box, Text, useStdout} from 'ink';
-import * as fs from 'fs';
 import * as path from 'path';
 import {Menu, MenuOption} from './components/Menu.js';
 import Tutorial from './components/modes/TutorialMode.js';
 import {GenerateMode} from './components/modes/GenerateMode.js';
+import {ReviewMode} from './components/modes/ReviewMode.js';
 import {ChatMode} from './components/modes/ChatMode.js';
 import {ConfigMode} from './components/modes/ConfigMode.js';
-import {
-	apiKey,
-	getDebugMode,
-	gitignoreCatdocDirectories,
-} from './services/ConfigManagement.js';
+import {gitignoreCatdocDirectories} from './services/ConfigManagement.js';
+import {createDebugLog} from './services/DebugLog.js';
+import {isProviderConfigured} from './services/LLMProvider.js';
 import {ConfigError} from './components/ConfigError.js';
 import {DocManager} from './services/DocManager.js'; // Import DocManager
 
-const DEBUG = getDebugMode();
-const LOGS_DIR = path.join(process.cwd(), 'logs');
-const LOG_FILE = path.join(LOGS_DIR, 'catdoc-debug.log');
-
-// Initialize logging
-try {
-	if (!fs.existsSync(LOGS_DIR)) {
-		fs.mkdirSync(LOGS_DIR, {recursive: true});
-	}
-	fs.writeFileSync(
-		LOG_FILE,
-		`=== New Session Started at ${new Date().toISOString()} ===\n`,
-	);
-} catch (error) {
-	console.error('Failed to initialize logging:', error);
-}
-
-const debugLog = (message: string) => {
-	if (DEBUG) {
-		const timestamp = new Date().toISOString();
-		const logMessage = `[${timestamp}] ${message}\n`;
-		try {
-			fs.appendFileSync(LOG_FILE, logMessage);
-		} catch (error) {
-			// Silently fail
-		}
-	}
-};
-
-debugLog('Logging system initialized');
+const debugLog = createDebugLog();
 
 interface AppProps {
 	path?: string;
@@ -168,7 +137,7 @@ const App: React.FC<AppProps> = ({path: initialPath = process.cwd()}) => {
 		// Render the selected mode
 		switch (activeMode) {
 			case 'generate':
-				if (!apiKey) {
+				if (!isProviderConfigured()) {
 					content = <ConfigError onBack={handleBack} />;
 				} else {
 					content = (
@@ -176,6 +145,15 @@ const App: React.FC<AppProps> = ({path: initialPath = process.cwd()}) => {
 					);
 				}
 				break;
+			case 'review':
+				if (!isProviderConfigured()) {
+					content = <ConfigError onBack={handleBack} />;
+				} else {
+					content = (
+						<ReviewMode workspacePath={workspacePath} onBack={handleBack} />
+					);
+				}
+				break;
 			case 'chat':
 				content = (
 					<Box width={terminalWidth} height={terminalHeight}>
@@ -214,7 +192,9 @@ const App: React.FC<AppProps> = ({path: initialPath = process.cwd()}) => {
 				// Reset invalid mode
 				if (
 					activeMode &&
-					!['generate', 'chat', 'config', 'tutorial'].includes(activeMode)
+					!['generate', 'review', 'chat', 'config', 'tutorial'].includes(
+						activeMode,
+					)
 				) {
 					setActiveMode(null);
 				}
@@ -3,7 +3,42 @@ import React from 'react';
 import {render} from 'ink';
 import meow from 'meow';
 import App from './app.js';
+import path from 'node:path';
 import {DocManager} from './services/DocManager.js';
+import {
+	checkFreshness,
+	thresholdViolations,
+} from './services/FreshnessCheck.js';
+import {
+	CoverageCounts,
+	measureDocstringCoverage,
+} from './services/DocstringCoverage.js';
+import {DocLintReport, lintDocstrings} from './services/DocstringLinter.js';
+import {fixDocstrings} from './services/DocStringManager.js';
+import {DocsServer} from './services/DocsServer.js';
+import {McpServer} from './services/McpServer.js';
+import {LspServer} from './services/LspServer.js';
+import {writeCoveragePage} from './services/SiteGenerator.js';
+import {parseSince, undoWrites} from './services/UndoJournal.js';
+import {
+	configLayers,
+	configProblems,
+	getConcurrency,
+	readConfig,
+	setConfigProjectDirectory,
+} from './services/ConfigManagement.js';
+import {
+	formatProgress,
+	OUTPUT_FORMATS,
+	OutputFormat,
+	PROGRESS_FORMATS,
+	ProgressFormat,
+	runHeadlessGeneration,
+} from './services/HeadlessGenerator.js';
+import {
+	STRUCTURED_DOC_FIELDS,
+	StructuredDocField,
+} from './services/StructuredDocs.js';
 
 /**
  * Represents the CLI configuration using meow.
@@ -15,15 +50,72 @@ const cli = meow(
 
 	Commands
 		browse          Browse and generate documentation interactively (default)
-		generate        Generate documentation for changed files
+		generate        Generate documentation for changed files (exits 1 if any file fails)
+		check           Report stale, missing and orphaned documentation without calling a model (exits 1 over the limits)
+		coverage        Report which classes, methods and functions carry docstrings, per file, directory and project
+		lint-docs       Report docstrings that contradict their signatures: unknown, missing or renamed params, returns on void functions (exits 1 on issues)
+		failed          List files whose documentation permanently failed
+		export          Write the documentation as Markdown files (to <output_dir>/markdown by default)
+		serve           Serve the docs and a query API (/api) on localhost, regenerating and reloading them as files change
+		mcp             Run a Model Context Protocol server on stdio for coding agents
+		lsp             Run a language server on stdio: hover docs, stale-summary code lenses, docstring actions
+		show <path>     Print a file's documentation, or a directory's overview ('.' for the whole project)
+		undo            Restore the last file catdoc modified (docstrings, .gitignore) from its backup
+		config          Show where each setting comes from and the effective configuration
 
 	Options
-		--path  Path to the project directory (defaults to current directory)
+		--path     Path to the project directory (defaults to current directory)
+		--offline  Use deterministic, structure-based output instead of calling a model
+		--cassette record|replay  Save every model response to .catdoc/cassettes, or serve them back
+		--requeue  With 'failed', generate the failed files again
+		--all      With 'generate', document every file instead of the git changes
+		--since    With 'generate', document files changed since a git ref, e.g. origin/main
+		--files    With 'generate', only document files matching a glob, e.g. "source/**/*.ts"
+		--force    With 'generate', also regenerate documentation that is up to date; with 'undo', restore files edited since
+		--concurrency  With 'generate', how many files to document at once (default: the 'concurrency' setting, or 3)
+		--format   With 'generate', what to write: html (default), md or json (docs.json only)
+		--dry-run  With 'generate', list the files that would be documented
+		--progress With 'generate', progress output: plain (default) or ndjson
+		--field    With 'show', print one field: purpose, symbols, exports, sideEffects, dependencies or caveats
+		--symbol   With 'show', print the documentation of one class, method or function, e.g. DocManager.saveDocs
+		--json     With 'show', 'check', 'coverage', 'lint-docs' and 'config', print JSON
+		--fix      With 'lint-docs', regenerate the inconsistent docstrings
+		--html     With 'coverage', also write the report to <output_dir>/html/coverage.html
+		--max-stale     With 'check', the percentage of stale documentation allowed (default 0)
+		--max-missing   With 'check', the percentage of undocumented files allowed (default 100)
+		--max-orphaned  With 'check', the percentage of documentation of deleted files allowed (default 100)
+		--out      With 'export' and 'generate --format md', the directory to write to
+		--port     With 'serve', the port to listen on (default 4040)
+		--host     With 'serve', the address to bind (default 127.0.0.1)
+		--all-since  With 'undo', restore every modification since a time, e.g. 2h, 1d or 2024-05-01T10:00
 
 	Examples
 	  $ davishacks                    # Browse files interactively
 	  $ davishacks generate          # Generate docs for changed files
 	  $ davishacks --path=/path/to/project
+	  $ davishacks generate --offline
+	  $ davishacks generate --since origin/main --format md --progress ndjson
+	  $ davishacks generate --all --files "source/services/**" --dry-run
+	  $ davishacks generate --cassette=replay
+	  $ davishacks check --max-stale=5 --max-missing=20
+	  $ davishacks coverage --html
+	  $ davishacks lint-docs --fix
+	  $ davishacks failed --requeue
+	  $ davishacks export --out=../wiki/catdoc
+	  $ davishacks serve --port=8080
+	  $ davishacks mcp --path=/path/to/project
+	  $ davishacks show source/cli.tsx --field symbols
+	  $ davishacks show source/services/DocManager.ts --symbol DocManager.generateHtml
+	  $ davishacks undo --all-since 1h
+	  $ davishacks config
+
+	Configuration
+	  Settings are read from ~/.config/catdoc/config.json (or $XDG_CONFIG_HOME/catdoc),
+	  then the project's .catdoc/config.json, then CATDOC_* environment variables such as
+	  CATDOC_CONCURRENCY, CATDOC_OUTPUT_DIR or CATDOC_IGNORE="vendor/**,*.min.js".
+	  Later sources override earlier ones. Invalid settings are reported and exit with 2.
+	  API keys can also come from CATDOC_GOOGLE_API_KEY, GOOGLE_API_KEY, GEMINI_API_KEY or
+	  CATDOC_OPENAI_API_KEY, or from ~/.config/catdoc/secrets.json, which must be chmod 600.
 `,
 	{
 		importMeta: import.meta,
@@ -32,6 +124,90 @@ const cli = meow(
 				type: 'string',
 				default: process.cwd(),
 			},
+			offline: {
+				type: 'boolean',
+				default: false,
+			},
+			cassette: {
+				type: 'string',
+			},
+			requeue: {
+				type: 'boolean',
+				default: false,
+			},
+			all: {
+				type: 'boolean',
+				default: false,
+			},
+			since: {
+				type: 'string',
+			},
+			files: {
+				type: 'string',
+			},
+			force: {
+				type: 'boolean',
+				default: false,
+			},
+			concurrency: {
+				type: 'number',
+			},
+			format: {
+				type: 'string',
+				default: 'html',
+			},
+			dryRun: {
+				type: 'boolean',
+				default: false,
+			},
+			progress: {
+				type: 'string',
+				default: 'plain',
+			},
+			field: {
+				type: 'string',
+			},
+			symbol: {
+				type: 'string',
+			},
+			json: {
+				type: 'boolean',
+				default: false,
+			},
+			html: {
+				type: 'boolean',
+				default: false,
+			},
+			fix: {
+				type: 'boolean',
+				default: false,
+			},
+			out: {
+				type: 'string',
+			},
+			maxStale: {
+				type: 'number',
+				default: 0,
+			},
+			maxMissing: {
+				type: 'number',
+				default: 100,
+			},
+			maxOrphaned: {
+				type: 'number',
+				default: 100,
+			},
+			port: {
+				type: 'number',
+				default: 4040,
+			},
+			host: {
+				type: 'string',
+				default: '127.0.0.1',
+			},
+			allSince: {
+				type: 'string',
+			},
 		},
 	},
 );
@@ -41,34 +217,588 @@ const cli = meow(
  */
 const [command = 'browse'] = cli.input;
 
+if (cli.flags.offline) {
+	process.env['CATDOC_OFFLINE'] = '1';
+}
+if (cli.flags.cassette) {
+	process.env['CATDOC_CASSETTE'] = cli.flags.cassette;
+}
+setConfigProjectDirectory(cli.flags.path);
+
+/**
+ * Prints where each setting comes from and the merged result, with API keys masked.
+ *
+ * @param {boolean} json - Whether to print JSON instead of text.
+ * @returns {void}
+ */
+function showConfig(json: boolean) {
+	const mask = (config: object) =>
+		JSON.parse(
+			JSON.stringify(config, (key, value) =>
+				key.endsWith('_api_key') && value ? '********' : value,
+			),
+		);
+	const layers = configLayers();
+	if (json) {
+		console.log(
+			JSON.stringify(
+				{
+					layers: layers.map(layer => ({
+						...layer,
+						config: mask(layer.config),
+					})),
+					effective: mask(readConfig()),
+				},
+				null,
+				2,
+			),
+		);
+		return;
+	}
+	for (const layer of layers) {
+		console.log(`${layer.source}${layer.found ? '' : ' (not found)'}`);
+		for (const [key, value] of Object.entries(mask(layer.config))) {
+			console.log(`  ${key} = ${JSON.stringify(value)}`);
+		}
+		for (const problem of layer.problems) {
+			console.log(`  invalid: ${problem}`);
+		}
+	}
+	console.log('\nEffective configuration:');
+	console.log(JSON.stringify(mask(readConfig()), null, 2));
+}
+
+// Invalid settings would silently fall back to defaults, so refuse to run instead
+const problems = configProblems();
+if (problems.length > 0 && command !== 'config') {
+	console.error('Invalid catdoc configuration:');
+	for (const problem of problems) {
+		console.error(`  ${problem}`);
+	}
+	console.error("Run 'catdoc config' to see every setting and its source.");
+	process.exit(2);
+}
+
 /**
- * Generates documentation for changed files in a given workspace path.
+ * Generates documentation without the TUI, printing progress as it goes.
+ * Exits with 1 when any file or directory overview fails or the output can't be
+ * written, and 2 on invalid flags.
  *
  * @param {string} workspacePath - The path to the project directory.
+ * @param {typeof cli.flags} flags - The parsed command-line flags.
  * @returns {Promise<void>}
  */
-async function generateDocs(workspacePath: string) {
+async function generateDocs(workspacePath: string, flags: typeof cli.flags) {
+	const usageError = (message: string) => {
+		console.error(message);
+		process.exit(2);
+	};
+	if (!OUTPUT_FORMATS.includes(flags.format as OutputFormat)) {
+		usageError(
+			`Unknown format "${flags.format}". Expected ${OUTPUT_FORMATS.join(', ')}`,
+		);
+	}
+	if (!PROGRESS_FORMATS.includes(flags.progress as ProgressFormat)) {
+		usageError(
+			`Unknown progress format "${
+				flags.progress
+			}". Expected ${PROGRESS_FORMATS.join(', ')}`,
+		);
+	}
+	const concurrency = flags.concurrency ?? getConcurrency();
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		usageError('--concurrency must be a positive integer');
+	}
+	if (flags.all && flags.since) {
+		usageError('--all and --since cannot be combined');
+	}
+
+	const progress = flags.progress as ProgressFormat;
+	const docManager = new DocManager(workspacePath);
 	try {
-		const docManager = new DocManager(workspacePath);
-		const changedFiles = await docManager.getChangedFiles();
+		const result = await runHeadlessGeneration(
+			docManager,
+			{
+				all: flags.all,
+				since: flags.since,
+				files: flags.files,
+				force: flags.force,
+				concurrency,
+				format: flags.format as OutputFormat,
+				outputDir: flags.out ? path.resolve(flags.out) : undefined,
+				dryRun: flags.dryRun,
+			},
+			event => console.log(formatProgress(event, progress)),
+		);
+		await docManager.shutdown();
+		process.exit(result.failed > 0 || result.rollupsFailed ? 1 : 0);
+	} catch (error) {
+		console.error(
+			'Error generating documentation:',
+			error instanceof Error ? error.message.trim() : error,
+		);
+		await docManager.shutdown();
+		process.exit(1);
+	}
+}
 
-		if (changedFiles.length === 0) {
-			return;
+/**
+ * Checks that the documentation matches the code, for CI and merge gates.
+ * Exits with 1 when a threshold is exceeded.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @param {typeof cli.flags} flags - The parsed command-line flags.
+ * @returns {Promise<void>}
+ */
+async function checkDocs(workspacePath: string, flags: typeof cli.flags) {
+	const docManager = new DocManager(workspacePath);
+	const report = await checkFreshness(docManager);
+	// Not shutdown(): it saves docs.json, and a check must leave the tree untouched
+	await docManager.directoryWatcher.close();
+	const violations = thresholdViolations(report, {
+		maxStale: flags.maxStale,
+		maxMissing: flags.maxMissing,
+		maxOrphaned: flags.maxOrphaned,
+	});
+
+	if (flags.json) {
+		console.log(
+			JSON.stringify(
+				{...report, passed: violations.length === 0, violations},
+				null,
+				2,
+			),
+		);
+	} else {
+		console.log(
+			`${report.fresh} fresh, ${report.stale.length} stale (${report.percentages.stale}%), ${report.missing.length} missing (${report.percentages.missing}%), ${report.orphaned.length} orphaned (${report.percentages.orphaned}%) of ${report.workspaceFiles} files`,
+		);
+		const sections: Array<[string, string[]]> = [
+			['Stale', report.stale.map(file => file.path)],
+			['Missing', report.missing],
+			['Orphaned', report.orphaned],
+		];
+		for (const [title, files] of sections) {
+			if (files.length === 0) continue;
+			console.log(`\n${title}:`);
+			for (const file of files) console.log(`  ${file}`);
 		}
+		if (violations.length > 0) {
+			console.log('');
+			for (const violation of violations) console.error(`FAIL: ${violation}`);
+		}
+	}
+	process.exit(violations.length > 0 ? 1 : 0);
+}
+
+/**
+ * Reports docstring coverage, least covered files first, so undocumented hot spots
+ * can be targeted. Only parses files; never calls a model.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @param {typeof cli.flags} flags - The parsed command-line flags.
+ * @returns {Promise<void>}
+ */
+async function showCoverage(workspacePath: string, flags: typeof cli.flags) {
+	const docManager = new DocManager(workspacePath);
+	const report = await measureDocstringCoverage(docManager);
+	await docManager.directoryWatcher.close();
+	const pagePath = flags.html
+		? writeCoveragePage(report, path.join(docManager.docsPath, 'html'))
+		: undefined;
+
+	if (flags.json) {
+		console.log(JSON.stringify(report, null, 2));
+		return;
+	}
+	const line = (label: string, counts: CoverageCounts) =>
+		`  ${`${Math.round(counts.percent)}%`.padStart(
+			4,
+		)}  ${`${counts.documented}/${counts.total}`.padStart(9)}  ${label}`;
+	console.log(
+		`${report.project.documented} of ${report.project.total} classes, methods and functions documented (${report.project.percent}%)`,
+	);
+	console.log('\nDirectories:');
+	for (const [directory, counts] of Object.entries(report.directories).sort(
+		([a], [b]) => a.localeCompare(b),
+	)) {
+		console.log(line(directory === '.' ? '.' : `${directory}/`, counts));
+	}
+	console.log('\nFiles, least covered first:');
+	for (const file of [...report.files].sort(
+		(a, b) => a.percent - b.percent || a.path.localeCompare(b.path),
+	)) {
+		console.log(line(file.path, file));
+	}
+	if (pagePath) console.log(`\nWrote ${pagePath}`);
+}
 
-		for (const file of changedFiles) {
-			await docManager.generateDocumentation(file);
+/**
+ * Reports docstrings that contradict their signatures. With --fix, regenerates just
+ * those docstrings and reports what is left. Exits with 1 when issues remain.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @param {typeof cli.flags} flags - The parsed command-line flags.
+ * @returns {Promise<void>}
+ */
+async function lintDocs(workspacePath: string, flags: typeof cli.flags) {
+	const docManager = new DocManager(workspacePath);
+	let report: DocLintReport = await lintDocstrings(docManager);
+	if (flags.fix && report.issueCount > 0) {
+		for (const file of report.files) {
+			try {
+				const replaced = await fixDocstrings(
+					path.join(workspacePath, file.path),
+					file.issues,
+					workspacePath,
+				);
+				console.error(
+					`Regenerated ${replaced.length} docstring${
+						replaced.length === 1 ? '' : 's'
+					} in ${file.path}`,
+				);
+			} catch (error) {
+				console.error(`Could not fix ${file.path}: ${error}`);
+			}
 		}
+		report = await lintDocstrings(docManager);
+	}
+	await docManager.directoryWatcher.close();
 
-		await docManager.generateHtml();
+	if (flags.json) {
+		console.log(JSON.stringify(report, null, 2));
+	} else {
+		for (const file of report.files) {
+			for (const issue of file.issues) {
+				console.log(
+					`${file.path}:${issue.line}  ${issue.symbol} ${issue.message}  [${issue.kind}]`,
+				);
+			}
+		}
+		console.log(
+			`${report.issueCount} issue${report.issueCount === 1 ? '' : 's'} in ${
+				report.symbolsChecked
+			} documented functions and methods`,
+		);
+	}
+	process.exit(report.issueCount > 0 ? 1 : 0);
+}
+
+/**
+ * Restores files catdoc modified from the backups in its undo journal, newest first.
+ * Files edited since catdoc wrote them are kept unless --force is given.
+ * Exits with 1 when any modification could not be undone and 2 on invalid flags.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @param {typeof cli.flags} flags - The parsed command-line flags.
+ * @returns {void}
+ */
+function undoModifications(workspacePath: string, flags: typeof cli.flags) {
+	let since: Date | undefined;
+	if (flags.allSince !== undefined) {
+		since = parseSince(flags.allSince) ?? undefined;
+		if (!since) {
+			console.error(
+				`Invalid --all-since "${flags.allSince}": use a time such as 2024-05-01T10:00 or a duration such as 30m, 2h or 1d.`,
+			);
+			process.exit(2);
+		}
+	}
+
+	const result = undoWrites(workspacePath, {since, force: flags.force});
+	if (result.restored.length === 0 && result.conflicts.length === 0) {
+		console.log('Nothing to undo.');
+		return;
+	}
+	for (const entry of result.restored) {
+		console.log(
+			`${entry.existed ? 'Restored' : 'Removed'} ${entry.path} (${
+				entry.reason
+			}, ${entry.writtenAt})`,
+		);
+	}
+	for (const {entry, reason} of result.conflicts) {
+		console.error(`Kept ${entry.path} (${entry.writtenAt}): ${reason}`);
+	}
+	process.exit(result.conflicts.length > 0 ? 1 : 0);
+}
+
+/**
+ * Lists files whose documentation permanently failed, optionally retrying them.
+ * Exits with a non-zero code if any file still fails after the retry.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @param {boolean} requeue - Whether to generate the failed files again.
+ * @returns {Promise<void>}
+ */
+async function showFailedFiles(workspacePath: string, requeue: boolean) {
+	const docManager = new DocManager(workspacePath);
+	const deadLetters = docManager.getDeadLetters();
+
+	if (deadLetters.length === 0) {
+		console.log('No failed files.');
+	} else {
+		for (const letter of deadLetters) {
+			console.log(
+				`${letter.path}\t${letter.failedAt}\t${
+					letter.retryable ? 'retries exhausted' : 'permanent'
+				}\t${letter.error}`,
+			);
+		}
+	}
+
+	if (requeue && deadLetters.length > 0) {
+		docManager.requeueDeadLetters();
+		await docManager.whenQueueIdle();
+		const remaining = docManager.getDeadLetters();
+		console.log(
+			`Re-queued ${deadLetters.length} files, ${remaining.length} still failing.`,
+		);
+		await docManager.shutdown();
+		if (remaining.length > 0) {
+			process.exit(1);
+		}
+	} else {
+		await docManager.shutdown();
+	}
+}
+
+/**
+ * Exports the existing documentation as Markdown.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @param {string | undefined} outputDir - Where to write, relative to the current directory.
+ * @returns {Promise<void>}
+ */
+async function exportDocs(
+	workspacePath: string,
+	outputDir: string | undefined,
+) {
+	const docManager = new DocManager(workspacePath);
+	try {
+		const result = docManager.exportMarkdown(
+			outputDir ? path.resolve(outputDir) : undefined,
+		);
+		console.log(
+			`Exported ${result.files} Markdown files to ${result.outputDir}`,
+		);
 	} catch (error) {
-		console.error('Error generating documentation:', error);
+		console.error('Error exporting documentation:', error);
+		process.exitCode = 1;
+	} finally {
+		await docManager.shutdown();
+	}
+}
+
+/**
+ * Serves the HTML docs and Markdown export until interrupted, documenting changed
+ * files in the background and live-reloading open pages.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @param {number} port - The port to listen on.
+ * @param {string} host - The address to bind.
+ * @returns {Promise<void>}
+ */
+async function serveDocs(workspacePath: string, port: number, host: string) {
+	const docManager = new DocManager(workspacePath);
+	const server = new DocsServer(docManager);
+	try {
+		const url = await server.start({port, host});
+		console.log(
+			`Serving documentation at ${url} (Markdown at ${url}markdown/)`,
+		);
+		console.log(
+			`Query API at ${url}api/ (status, tree, docs, search, regenerate, events)`,
+		);
+		console.log('Watching for changes. Press Ctrl+C to stop.');
+	} catch (error) {
+		console.error('Error starting the docs server:', error);
+		await docManager.shutdown();
 		process.exit(1);
 	}
+	await docManager.initialize();
+
+	process.once('SIGINT', async () => {
+		await server.close();
+		await docManager.shutdown();
+		process.exit(0);
+	});
+}
+
+/**
+ * Runs the MCP server on stdin/stdout until the client disconnects. It serves the
+ * existing documentation and never starts generation, which is billed.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @returns {Promise<void>}
+ */
+async function runMcpServer(workspacePath: string) {
+	const docManager = new DocManager(workspacePath);
+	await new McpServer(docManager).run();
+	await docManager.shutdown();
+	process.exit(0);
+}
+
+/**
+ * Runs the language server on stdin/stdout until the editor exits it. It serves the
+ * existing documentation and regenerates a file only when the editor runs the
+ * regenerate command, so opening an editor doesn't document every stale file.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @returns {Promise<void>}
+ */
+async function runLanguageServer(workspacePath: string) {
+	const docManager = new DocManager(workspacePath);
+	const shutDown = await new LspServer(docManager).run();
+	await docManager.shutdown();
+	// The protocol asks for exit code 1 when the client exits without shutting down
+	process.exit(shutDown ? 0 : 1);
+}
+
+/**
+ * Prints the documentation of one file, a single structured field of it, or the
+ * rollup summary of a directory.
+ *
+ * @param {string} workspacePath - The path to the project directory.
+ * @param {string | undefined} file - The file or directory, relative to the current directory.
+ * @param {string | undefined} field - The structured field to print.
+ * @param {string | undefined} symbol - The qualified name of the symbol to print.
+ * @param {boolean} json - Whether to print JSON instead of text.
+ * @returns {Promise<void>}
+ */
+async function showDocumentation(
+	workspacePath: string,
+	file: string | undefined,
+	field: string | undefined,
+	symbol: string | undefined,
+	json: boolean,
+) {
+	if (!file) {
+		console.error('Usage: catdoc show <path> [--field <name>] [--json]');
+		process.exit(1);
+	}
+	if (field && !STRUCTURED_DOC_FIELDS.includes(field as StructuredDocField)) {
+		console.error(
+			`Unknown field "${field}". Expected one of: ${STRUCTURED_DOC_FIELDS.join(
+				', ',
+			)}`,
+		);
+		process.exit(1);
+	}
+
+	const docManager = new DocManager(workspacePath);
+	const doc = docManager.getDocumentation(path.resolve(file));
+	const directoryDoc = docManager.getDirectoryDocumentation(path.resolve(file));
+	await docManager.shutdown();
+	if (!doc && directoryDoc && !field) {
+		console.log(
+			json ? JSON.stringify(directoryDoc, null, 2) : directoryDoc.summary,
+		);
+		return;
+	}
+	if (!doc) {
+		console.error(`No documentation found for ${file}`);
+		process.exit(1);
+	}
+
+	if (symbol) {
+		const symbolDoc =
+			doc.symbols?.[symbol] ??
+			Object.values(doc.symbols ?? {}).find(
+				candidate => candidate.name.split('.').pop() === symbol,
+			);
+		if (!symbolDoc) {
+			console.error(`No documentation for symbol ${symbol} in ${doc.path}`);
+			process.exit(1);
+		}
+		if (json) {
+			console.log(JSON.stringify(symbolDoc, null, 2));
+			return;
+		}
+		console.log(
+			`${symbolDoc.name} (${symbolDoc.type}, lines ${symbolDoc.startLine}-${symbolDoc.endLine})`,
+		);
+		console.log(symbolDoc.signature);
+		console.log(`\n${symbolDoc.description}`);
+		if (symbolDoc.params.length > 0) {
+			console.log('\nParameters:');
+			for (const param of symbolDoc.params) {
+				console.log(
+					`  ${param.name}${param.type ? `: ${param.type}` : ''} - ${
+						param.description
+					}`,
+				);
+			}
+		}
+		if (symbolDoc.returns) {
+			console.log(
+				`\nReturns: ${
+					symbolDoc.returns.type ? `${symbolDoc.returns.type} - ` : ''
+				}${symbolDoc.returns.description}`,
+			);
+		}
+		if (symbolDoc.throws.length > 0) {
+			console.log(`\nThrows: ${symbolDoc.throws.join(', ')}`);
+		}
+		return;
+	}
+	if (!field) {
+		console.log(json ? JSON.stringify(doc, null, 2) : doc.summary);
+		return;
+	}
+	if (!doc.structured) {
+		console.error(
+			`${doc.path} has no structured documentation yet. Regenerate it to get individual fields.`,
+		);
+		process.exit(1);
+	}
+
+	const value = doc.structured[field as StructuredDocField];
+	if (json) {
+		console.log(JSON.stringify(value, null, 2));
+	} else if (typeof value === 'string') {
+		console.log(value);
+	} else {
+		for (const entry of value) {
+			console.log(
+				typeof entry === 'string'
+					? entry
+					: `${entry.name}\t${entry.type}\tlines ${entry.startLine}-${entry.endLine}\t${entry.summary}`,
+			);
+		}
+	}
 }
 
 if (command === 'generate') {
-	generateDocs(cli.flags.path);
+	generateDocs(cli.flags.path, cli.flags);
+} else if (command === 'check') {
+	checkDocs(cli.flags.path, cli.flags);
+} else if (command === 'coverage') {
+	showCoverage(cli.flags.path, cli.flags);
+} else if (command === 'lint-docs') {
+	lintDocs(cli.flags.path, cli.flags);
+} else if (command === 'undo') {
+	undoModifications(cli.flags.path, cli.flags);
+} else if (command === 'config') {
+	showConfig(cli.flags.json);
+} else if (command === 'failed') {
+	showFailedFiles(cli.flags.path, cli.flags.requeue);
+} else if (command === 'export') {
+	exportDocs(cli.flags.path, cli.flags.out);
+} else if (command === 'serve') {
+	serveDocs(cli.flags.path, cli.flags.port, cli.flags.host);
+} else if (command === 'mcp') {
+	runMcpServer(cli.flags.path);
+} else if (command === 'lsp') {
+	runLanguageServer(cli.flags.path);
+} else if (command === 'show') {
+	showDocumentation(
+		cli.flags.path,
+		cli.input[1],
+		cli.flags.field,
+		cli.flags.symbol,
+		cli.flags.json,
+	);
 } else {
 	render(<App path={cli.flags.path} />);
 }
@@ -1,8 +1,7 @@
 import React, {useState, useCallback, useEffect} from 'react';
 import {Box, Text, useInput, useApp, useStdout} from 'ink';
-import {streamText} from 'ai';
-import {createGoogleGenerativeAI} from '@ai-sdk/google';
-import {apiKey} from '../services/ConfigManagement.js';
+import {createProvider} from '../services/LLMProvider.js';
+import {getOutputDir} from '../services/ConfigManagement.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import figures from 'figures';
@@ -68,7 +67,11 @@ Ask me anything about your codebase and I'll try to help!`,
 
 	// Load documentation when component mounts
 	useEffect(() => {
-		const docsFilePath = path.join(process.cwd(), 'docs', 'docs.json');
+		const docsFilePath = path.resolve(
+			process.cwd(),
+			getOutputDir(),
+			'docs.json',
+		);
 		try {
 			if (fs.existsSync(docsFilePath)) {
 				const docsJson = fs.readFileSync(docsFilePath, {encoding: 'utf8'});
@@ -100,12 +103,6 @@ Ask me anything about your codebase and I'll try to help!`,
 		}
 	}, []);
 
-	const googleClient = createGoogleGenerativeAI({
-		baseURL: 'https://generativelanguage.googleapis.com/v1beta',
-		apiKey: apiKey,
-	});
-	const model = googleClient('gemini-2.5-pro-exp-03-25');
-
 	/**
 	 * Creates a conversational prompt that includes chat history and documentation context.
 	 */
@@ -114,7 +111,8 @@ Ask me anything about your codebase and I'll try to help!`,
 			.map(msg => `${msg.sender === 'user' ? 'User' : 'CatDoc'}: ${msg.text}`)
 			.join('\n\n');
 		return `You are CatDoc, a code assistant whose sole purpose is to answer questions about the codebase. Use the provided documentation
-and conversation history to answer questions accurately.
+and conversation history to answer questions accurately. Where a file has a "structured" entry, use its purpose, symbols (with line ranges),
+exports, sideEffects, dependencies and caveats fields for precise answers.
 
 ## Documents Context
 ${docsContext || 'No documentation available.'}
@@ -134,8 +132,7 @@ Respond to the user's latest message.`;
 			{id: Date.now(), sender: 'user', text: query},
 		];
 		const systemPrompt = createConversationalPrompt(history);
-		return streamText({
-			model: model,
+		return createProvider().streamChat({
 			system: systemPrompt,
 			prompt: query,
 		});
@@ -164,7 +161,7 @@ Respond to the user's latest message.`;
 
 			const stream = await getBotResponse(textToSubmit);
 			let fullText = '';
-			for await (const chunk of stream.textStream) {
+			for await (const chunk of stream) {
 				fullText += chunk;
 				setMessages(prev =>
 					prev.map(msg =>
@@ -1,28 +1,34 @@
 import React from 'react';
 import {Box, Text} from 'ink';
+import {configProblems, getApiKeySource} from '../services/ConfigManagement.js';
 
 interface ConfigErrorProps {
-    onBack: () => void;
+	onBack: () => void;
 }
 
 export const ConfigError: React.FC<ConfigErrorProps> = ({onBack}) => {
-    React.useEffect(() => {
-        const handler = (input: Buffer) => {
-            if (input.toString() === '\x1B') { // ESC key
-                onBack();
-            }
-        };
+	// Read on every render, so keys saved or exported since startup are shown
+	const {provider, source, searched} = getApiKeySource();
+	const problems = configProblems();
 
-        process.stdin.on('data', handler);
-        return () => {
-            process.stdin.removeListener('data', handler);
-        };
-    }, [onBack]);
+	React.useEffect(() => {
+		const handler = (input: Buffer) => {
+			if (input.toString() === '\x1B') {
+				// ESC key
+				onBack();
+			}
+		};
 
-    return (
-        <Box flexDirection="column" alignItems="center" padding={1}>
-            <Text>
-                {`
+		process.stdin.on('data', handler);
+		return () => {
+			process.stdin.removeListener('data', handler);
+		};
+	}, [onBack]);
+
+	return (
+		<Box flexDirection="column" alignItems="center" padding={1}>
+			<Text>
+				{`
             ___
           (___)
    ____
@@ -39,10 +45,36 @@ export const ConfigError: React.FC<ConfigErrorProps> = ({onBack}) => {
     (___    _____)
         '--'
                 `}
-            </Text>
-            <Box marginY={1}>
-                <Text>Press <Text color="yellow">ESC</Text> to go back and configure your API key (ascii art by by Shanaka Dias) </Text>
-            </Box>
-        </Box>
-    );
-}; 
\ No newline at end of file
+			</Text>
+			<Box marginY={1}>
+				<Text>
+					Press <Text color="yellow">ESC</Text> to go back and configure your
+					API key (ascii art by by Shanaka Dias){' '}
+				</Text>
+			</Box>
+			<Box flexDirection="column">
+				{source ? (
+					<Text>
+						The {provider} API key comes from <Text color="cyan">{source}</Text>
+					</Text>
+				) : (
+					<Text>
+						No {provider} API key found. Looked in, highest precedence first:
+					</Text>
+				)}
+				{!source &&
+					searched.map(place => (
+						<Text key={place} dimColor>
+							{' '}
+							{place}
+						</Text>
+					))}
+				{problems.map(problem => (
+					<Text key={problem} color="red">
+						{problem}
+					</Text>
+				))}
+			</Box>
+		</Box>
+	);
+};
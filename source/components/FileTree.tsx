@@ -38,6 +38,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
 	onSelect,
 	level = 0,
 	height,
+	coverage,
 }) => {
 	// Basic state
 	const [focusedIndex, setFocusedIndex] = useState(0);
@@ -293,6 +294,10 @@ export const FileTree: React.FC<FileTreeProps> = ({
 			(item.node.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
 				item.path.toLowerCase().includes(searchQuery.toLowerCase()));
 
+		// Docstring coverage, for files and directories that define symbols
+		const coveragePercent =
+			item.node.path === undefined ? undefined : coverage?.[item.node.path];
+
 		// Display name handling
 		const displayName = item.node.name;
 		const shouldHighlight = searchQuery && !isSearching && isDirectMatch;
@@ -330,6 +335,17 @@ export const FileTree: React.FC<FileTreeProps> = ({
 					) : (
 						displayName
 					)}
+					{coveragePercent !== undefined && (
+						<Text
+							color={
+								coveragePercent >= 80
+									? 'green'
+									: coveragePercent >= 50
+									? 'yellow'
+									: 'red'
+							}
+						>{` ${Math.round(coveragePercent)}%`}</Text>
+					)}
 					{isFocusedItem && item.node.type === 'file' ? ' (Enter/Space)' : ''}
 				</Text>
 			</Box>
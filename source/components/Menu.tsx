@@ -1,7 +1,7 @@
 import React, {useState} from 'react';
 import {Box, Text, useInput} from 'ink';
 
-export type MenuOption = 'generate' | 'chat' | 'config' | 'tutorial';
+export type MenuOption = 'generate' | 'chat' | 'config' | 'tutorial' | 'review';
 
 interface MenuProps {
 	onSelect: (option: MenuOption) => void;
@@ -25,6 +25,15 @@ const SPACE_BACKGROUNDS = {
    *    |     \\    |.  .   .   .    .   .
  .   .  |      \\   |   .   .   *  .   *  .
    .  * |       \\  | .   .   .    .   .  .`,
+	review: `
+   *  . *    *   .    .    .   *   *   .   *
+  .  *    .   .  . * .   .   .   .   *   .
+   .   *  .   .    .   *   .   .    .   .  .
+  * . .    .   .   .   .   *  .   .   .  .
+ .  .   .   .   .   *  .   .   .   *   .  .
+   *    .   .   .   .   .    .   .   .   .
+ .   .   .   .   .   .   *  .   *   .   .
+   .   *   .   .   .   .    .   .   .   .`,
 	chat: `
                           .  *  .  *  .   *
                        *   .     .    .
@@ -69,6 +78,16 @@ const OPTION_CATS = {
          |.   \`.-'-'.
         .||  /,     |
        do_o00oo_,.ob`,
+	review: `
+                        /\\_/\\
+                       ( o.o )   .--.
+                        > ^ <   / ~~ \\
+                       /|   |\\  | ++ |
+                      (_|   |_) \\ -- /
+                                 '--'\\
+                                      \\
+                                       \\
+                                        `,
 	chat: `
                           ,_     _
                           |\\_,-~/
@@ -110,6 +129,7 @@ export const Menu: React.FC<MenuProps> = ({onSelect}) => {
 		{label: 'ℂ𝕙𝕒𝕥 𝕨𝕚𝕥𝕙 ℂ𝕠𝕕𝕖𝕓𝕒𝕤𝕖', value: 'chat'},
 		{label: 'ℂ𝕠𝕟𝕗𝕚𝕘𝕦𝕣𝕒𝕥𝕚𝕠𝕟', value: 'config'},
 		{label: '𝕋𝕦𝕥𝕠𝕣𝕚𝕒𝕝', value: 'tutorial'},
+		{label: 'ℝ𝕖𝕧𝕚𝕖𝕨 𝔻𝕠𝕔𝕤𝕥𝕣𝕚𝕟𝕘𝕤', value: 'review'},
 	];
 
 	useInput((_, key) => {
@@ -142,65 +162,47 @@ export const Menu: React.FC<MenuProps> = ({onSelect}) => {
 				<Text color="white">Choose an option:</Text>
 			</Box>
 
-			{/* First Row */}
-			<Box justifyContent="center">
-				{options.slice(0, 2).map((option, index) => (
-					<Box key={option.value} width={45} marginX={1} flexDirection="column">
-						<Box>
-							<Text
-								color={index === selectedIndex ? 'white' : 'gray'}
-								dimColor={index !== selectedIndex}
-							>
-								{SPACE_BACKGROUNDS[option.value]}
-							</Text>
-						</Box>
-						<Box marginTop={-6} alignItems="center">
-							<Text color={index === selectedIndex ? 'green' : 'gray'}>
-								{OPTION_CATS[option.value]}
-							</Text>
-						</Box>
-						<Box alignItems="center">
-							<Text
-								color={index === selectedIndex ? 'green' : 'white'}
-								bold={index === selectedIndex}
-							>
-								{index === selectedIndex ? '› ' : '  '}
-								{option.label}
-							</Text>
-						</Box>
-					</Box>
-				))}
-			</Box>
-
-			{/* Second Row */}
-			<Box justifyContent="center">
-				{options.slice(2).map((option, index) => (
-					<Box key={option.value} width={45} marginX={1} flexDirection="column">
-						<Box>
-							<Text
-								color={index + 2 === selectedIndex ? 'white' : 'gray'}
-								dimColor={index + 2 !== selectedIndex}
-							>
-								{SPACE_BACKGROUNDS[option.value]}
-							</Text>
-						</Box>
-						<Box marginTop={-6} alignItems="center">
-							<Text color={index + 2 === selectedIndex ? 'green' : 'gray'}>
-								{OPTION_CATS[option.value]}
-							</Text>
-						</Box>
-						<Box alignItems="center">
-							<Text
-								color={index + 2 === selectedIndex ? 'green' : 'white'}
-								bold={index + 2 === selectedIndex}
-							>
-								{index + 2 === selectedIndex ? '› ' : '  '}
-								{option.label}
-							</Text>
-						</Box>
+			{/* Two options per row */}
+			{[0, 2, 4]
+				.filter(rowStart => rowStart < options.length)
+				.map(rowStart => (
+					<Box key={rowStart} justifyContent="center">
+						{options.slice(rowStart, rowStart + 2).map((option, offset) => {
+							const isSelected = rowStart + offset === selectedIndex;
+							return (
+								<Box
+									key={option.value}
+									width={45}
+									marginX={1}
+									flexDirection="column"
+								>
+									<Box>
+										<Text
+											color={isSelected ? 'white' : 'gray'}
+											dimColor={!isSelected}
+										>
+											{SPACE_BACKGROUNDS[option.value]}
+										</Text>
+									</Box>
+									<Box marginTop={-6} alignItems="center">
+										<Text color={isSelected ? 'green' : 'gray'}>
+											{OPTION_CATS[option.value]}
+										</Text>
+									</Box>
+									<Box alignItems="center">
+										<Text
+											color={isSelected ? 'green' : 'white'}
+											bold={isSelected}
+										>
+											{isSelected ? '› ' : '  '}
+											{option.label}
+										</Text>
+									</Box>
+								</Box>
+							);
+						})}
 					</Box>
 				))}
-			</Box>
 
 			<Box marginTop={1} alignItems="center">
 				<Text color="white">Use arrow keys to navigate, Enter to select</Text>
@@ -2,6 +2,8 @@ import React, {useState, useEffect} from 'react';
 import {useInput, Box, Text} from 'ink';
 import ChatInterface from '../ChatInterface.js';
 import * as fs from 'fs';
+import * as path from 'path';
+import {getOutputDir} from '../../services/ConfigManagement.js';
 
 export const ChatMode: React.FC<{
 	onBack: () => void;
@@ -11,7 +13,7 @@ export const ChatMode: React.FC<{
 	const [error, _setError] = useState<string | null>(null);
 
 	useEffect(() => {
-		if (fs.existsSync('docs/docs.json')) {
+		if (fs.existsSync(path.join(getOutputDir(), 'docs.json'))) {
 			setLoading(false);
 		}
 	}, []);
@@ -5,9 +5,17 @@ import {
 	updateApiKey,
 	updateDebugMode,
 	getDebugMode,
-	apiKey as storedApiKey,
+	getApiKeySource,
+	ProviderName,
+	userSecretsPath,
 } from '../../services/ConfigManagement.js';
 
+const PROVIDER_LABELS: Record<ProviderName, string> = {
+	google: 'Google',
+	openai: 'OpenAI-compatible',
+	fake: 'Offline',
+};
+
 // Function to handle config
 export const ConfigMode: React.FC<{onBack: () => void}> = ({onBack}) => {
 	// Get terminal dimensions
@@ -19,7 +27,11 @@ export const ConfigMode: React.FC<{onBack: () => void}> = ({onBack}) => {
 	const messageTimer = useRef<NodeJS.Timeout | null>(null);
 
 	// State for config options
-	const [apiKey, setApiKey] = useState(storedApiKey || '');
+	// The key of the configured provider
+	const [keySource, setKeySource] = useState(() => getApiKeySource());
+	const needsKey = keySource.provider !== 'fake';
+	const providerLabel = PROVIDER_LABELS[keySource.provider];
+	const [apiKey, setApiKey] = useState(keySource.key || '');
 	const [isApiKeyEditing, setIsApiKeyEditing] = useState(false);
 	const [message, setMessage] = useState<string | null>(null);
 	const [messageType, setMessageType] = useState<'success' | 'error' | 'info'>(
@@ -99,6 +111,7 @@ export const ConfigMode: React.FC<{onBack: () => void}> = ({onBack}) => {
 			}
 		} else if (
 			input.toLowerCase() === 'e' &&
+			needsKey &&
 			!isApiKeyEditing &&
 			focusedOption === 'api'
 		) {
@@ -116,9 +129,26 @@ export const ConfigMode: React.FC<{onBack: () => void}> = ({onBack}) => {
 	const handleApiKeySubmit = (value: string) => {
 		const trimmedValue = value.trim();
 		if (trimmedValue) {
-			setApiKey(trimmedValue);
 			setIsApiKeyEditing(false);
-			updateApiKey(trimmedValue);
+			try {
+				updateApiKey(trimmedValue, keySource.provider);
+			} catch (error) {
+				displayMessage(`Error saving API key: ${error}`, 'error');
+				return;
+			}
+			// A key from an environment variable still wins over the saved one
+			const updated = getApiKeySource(keySource.provider);
+			setKeySource(updated);
+			setApiKey(updated.key || trimmedValue);
+			if (updated.source !== userSecretsPath()) {
+				displayMessage(
+					updated.source
+						? `API key saved, but the key from ${updated.source} takes precedence.`
+						: `API key saved to ${userSecretsPath()}, but it isn't in effect. Run 'catdoc config' to see why.`,
+					'info',
+				);
+				return;
+			}
 			displayMessage('API key saved successfully!', 'success');
 
 			// Show success animation briefly
@@ -185,7 +215,8 @@ export const ConfigMode: React.FC<{onBack: () => void}> = ({onBack}) => {
 				>
 					<Box marginBottom={1}>
 						<Text bold color={focusedOption === 'api' ? 'blue' : undefined}>
-							{focusedOption === 'api' ? '›› ' : '   '}Google API Key
+							{focusedOption === 'api' ? '›› ' : '   '}
+							{providerLabel} API Key
 						</Text>
 						<Text color="gray"> (for AI-powered documentation)</Text>
 					</Box>
@@ -198,16 +229,23 @@ export const ConfigMode: React.FC<{onBack: () => void}> = ({onBack}) => {
 									value={apiKey}
 									onChange={setApiKey}
 									onSubmit={handleApiKeySubmit}
-									placeholder="Enter your Google API key here..."
+									placeholder={`Enter your ${providerLabel} API key here...`}
 									showCursor
 								/>
 							</Box>
 						) : (
 							<Box>
-								<Text color={apiKey ? 'green' : 'yellow'} bold>
-									{apiKey ? getMaskedApiKey() : 'No API key set'}
+								<Text color={apiKey || !needsKey ? 'green' : 'yellow'} bold>
+									{!needsKey
+										? 'The offline provider needs no API key'
+										: apiKey
+										? getMaskedApiKey()
+										: 'No API key set'}
 								</Text>
-								{focusedOption === 'api' && !isApiKeyEditing && (
+								{keySource.source && (
+									<Text dimColor> from {keySource.source}</Text>
+								)}
+								{needsKey && focusedOption === 'api' && !isApiKeyEditing && (
 									<Text dimColor> (Press 'E' to edit)</Text>
 								)}
 							</Box>
@@ -318,9 +356,21 @@ export const ConfigMode: React.FC<{onBack: () => void}> = ({onBack}) => {
 					💡 Tips:
 				</Text>
 				<Box paddingLeft={2} flexDirection="column">
-					<Text>• Your API key is stored locally in catdoc.config.json</Text>
+					<Text>• Your API key is stored locally in {userSecretsPath()}</Text>
+					{needsKey && (
+						<Text>
+							•{' '}
+							{keySource.searched
+								.filter(place => place.startsWith('$'))
+								.map(place => place.slice(1))
+								.join(', ')}{' '}
+							take precedence over it
+						</Text>
+					)}
 					<Text>• Debug logs are saved in the ./logs directory</Text>
-					<Text>• API keys must have access to the Google Gemini API</Text>
+					{keySource.provider === 'google' && (
+						<Text>• API keys must have access to the Google Gemini API</Text>
+					)}
 				</Box>
 			</Box>
 		</Box>
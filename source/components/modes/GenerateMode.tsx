@@ -12,27 +12,18 @@ import * as path from 'path';
 import * as fs from 'fs';
 
 import {DocManager} from '../../services/DocManager.js';
-import {FileDocumentation, FileNode} from '../../types/docs.js';
+import {
+	coveragePercentages,
+	measureDocstringCoverage,
+} from '../../services/DocstringCoverage.js';
+import {DeadLetter, FileDocumentation, FileNode} from '../../types/docs.js';
 import {LoadingCat} from '../LoadingCat.js';
 import {FileTree} from '../FileTree.js'; // Assuming FileTree can handle height constraints
-import {getDebugMode} from '../../services/ConfigManagement.js';
+import {createDebugLog} from '../../services/DebugLog.js';
 // Removed StdoutContext import
 
 // --- Debug Logging (Keep as is) ---
-const DEBUG = getDebugMode();
-const LOGS_DIR = path.join(process.cwd(), 'logs');
-const LOG_FILE = path.join(LOGS_DIR, 'catdoc-debug.log');
-const debugLog = (message: string) => {
-	if (DEBUG) {
-		const timestamp = new Date().toISOString();
-		const logMessage = `[${timestamp}] ${message}\n`;
-		try {
-			fs.appendFileSync(LOG_FILE, logMessage);
-		} catch (error) {
-			// Silently fail
-		}
-	}
-};
+const debugLog = createDebugLog();
 // --- Helper Constants (Keep as is) ---
 const IGNORED_DIRS = new Set([
 	'node_modules',
@@ -41,7 +32,6 @@ const IGNORED_DIRS = new Set([
 	'coverage',
 	'.next',
 	'.cache',
-	'docs',
 ]);
 const INTERESTING_EXTENSIONS = new Set([
 	'.js',
@@ -131,6 +121,8 @@ export const GenerateMode: React.FC<{
 	const [loadingMessage, setLoadingMessage] = useState('Initializing...');
 	const [copySuccess, setCopySuccess] = useState<boolean>(false);
 	const [statusMessage, setStatusMessage] = useState<string | null>(null); // For temporary messages
+	const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+	const [coverage, setCoverage] = useState<Record<string, number>>({});
 
 	const docManagerRef = useRef<DocManager | null>(null);
 	if (!docManagerRef.current) {
@@ -177,6 +169,17 @@ export const GenerateMode: React.FC<{
 		}
 	}, [selectedFileDoc]);
 
+	// Docstring coverage shown next to tree entries; re-measured whenever docs update
+	const refreshCoverage = useCallback(async () => {
+		try {
+			setCoverage(
+				coveragePercentages(await measureDocstringCoverage(docManager)),
+			);
+		} catch (err) {
+			debugLog(`Error measuring docstring coverage: ${err}`);
+		}
+	}, [docManager]);
+
 	const refreshSelectedFile = useCallback(async () => {
 		if (selectedFile) {
 			setLoadingMessage(`Refreshing ${path.basename(selectedFile)}...`);
@@ -188,6 +191,7 @@ export const GenerateMode: React.FC<{
 				// THEN get the updated documentation
 				const updatedDoc = docManager.getDocumentation(selectedFile);
 				setSelectedFileDoc(updatedDoc || null); // Update state with the fetched doc
+				await refreshCoverage();
 
 				setStatusMessage(`✓ ${path.basename(selectedFile)} refreshed.`);
 				setTimeout(() => setStatusMessage(null), 2500);
@@ -204,7 +208,55 @@ export const GenerateMode: React.FC<{
 			setStatusMessage('Select a file to refresh.');
 			setTimeout(() => setStatusMessage(null), 2000);
 		}
-	}, [selectedFile, docManager]); // docManager added as dependency
+	}, [selectedFile, docManager, refreshCoverage]); // docManager added as dependency
+
+	// Poll the dead-letter list, it is shared with the background queue through disk
+	useEffect(() => {
+		const refreshDeadLetters = () =>
+			setDeadLetters(docManager.getDeadLetters());
+		refreshDeadLetters();
+		const interval = setInterval(refreshDeadLetters, 3000);
+		return () => clearInterval(interval);
+	}, [docManager]);
+
+	// Measure once the tree is shown, then after every batch of regenerated docs
+	useEffect(() => {
+		if (!fileStructure) return;
+		refreshCoverage();
+		docManager.on('updated', refreshCoverage);
+		return () => {
+			docManager.off('updated', refreshCoverage);
+		};
+	}, [docManager, fileStructure, refreshCoverage]);
+
+	const requeueFailedFiles = useCallback(() => {
+		if (deadLetters.length === 0) {
+			setStatusMessage('No failed files to retry.');
+			setTimeout(() => setStatusMessage(null), 2000);
+			return;
+		}
+		const count = docManager.requeueDeadLetters();
+		setDeadLetters([]);
+		setStatusMessage(
+			`Re-queued ${count} failed file${count === 1 ? '' : 's'}.`,
+		);
+		setTimeout(() => setStatusMessage(null), 2500);
+	}, [deadLetters, docManager]);
+
+	const exportMarkdown = useCallback(() => {
+		try {
+			const result = docManager.exportMarkdown();
+			setStatusMessage(
+				`Exported ${result.files} Markdown files to ${path.relative(
+					workspacePath,
+					result.outputDir,
+				)}`,
+			);
+		} catch (error) {
+			setStatusMessage(`Export failed: ${error}`);
+		}
+		setTimeout(() => setStatusMessage(null), 3000);
+	}, [docManager, workspacePath]);
 
 	useInput(async (input, key) => {
 		if (key.escape && !input) {
@@ -213,6 +265,10 @@ export const GenerateMode: React.FC<{
 			await handleCopy(); // Ensure await if handleCopy becomes async
 		} else if (key.ctrl && input.toUpperCase() === 'R') {
 			await refreshSelectedFile();
+		} else if (key.ctrl && input.toUpperCase() === 'F') {
+			requeueFailedFiles();
+		} else if (key.ctrl && input.toUpperCase() === 'E') {
+			exportMarkdown();
 		}
 	});
 
@@ -539,7 +595,10 @@ export const GenerateMode: React.FC<{
 					</Text>
 				</Box>
 				<Box justifyContent="space-between" alignItems="center">
-					<Text dimColor>(Esc: Back | Ctrl+R: Refresh | Shift+C: Copy)</Text>
+					<Text dimColor>
+						(Esc: Back | Ctrl+R: Refresh | Shift+C: Copy | Ctrl+F: Retry failed
+						| Ctrl+E: Export Markdown)
+					</Text>
 					{/* Status message area */}
 					<Box minWidth={20} justifyContent="flex-end">
 						{statusMessage ? (
@@ -551,6 +610,13 @@ export const GenerateMode: React.FC<{
 						)}
 					</Box>
 				</Box>
+				{deadLetters.length > 0 && (
+					<Text color="red" wrap="truncate-end">
+						⚠ {deadLetters.length} file{deadLetters.length === 1 ? '' : 's'}{' '}
+						failed to document:{' '}
+						{deadLetters.map(letter => letter.path).join(', ')}
+					</Text>
+				)}
 			</Box>
 
 			{/* Main Content Area (File Tree + Details) */}
@@ -578,6 +644,7 @@ export const GenerateMode: React.FC<{
 						onSelect={handleFileSelect}
 						selectedFile={selectedFile}
 						height={contentHeight} // Pass calculated content height
+						coverage={coverage}
 					/>
 				</Box>
 
@@ -747,7 +814,7 @@ const readDirectoryForUI = (
 			if (
 				IGNORED_DIRS.has(name) ||
 				(name.startsWith('.') && name !== '.' && name !== '..') ||
-				name === 'docs'
+				docManager.isExcluded(`${relativePath}/`) // Output directory, `ignore` globs
 			) {
 				debugLog(`Ignoring directory: ${nodePathKey}`);
 				return null; // Filter out ignored directory entirely
@@ -795,6 +862,7 @@ const readDirectoryForUI = (
 			// Filter files: Not hidden AND (interesting extension OR common file)
 			if (
 				!name.startsWith('.') &&
+				!docManager.isExcluded(relativePath) &&
 				(INTERESTING_EXTENSIONS.has(ext) ||
 					COMMON_FILES.has(ext) ||
 					COMMON_FILES.has(name))
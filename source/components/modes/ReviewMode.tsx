@@ -0,0 +1,398 @@
+import React, {useState, useEffect, useCallback, useRef} from 'react';
+import {useInput, Box, Text, useStdout} from 'ink';
+import TextInput from 'ink-text-input';
+import * as path from 'path';
+import {DocManager} from '../../services/DocManager.js';
+import {
+	FileCoverage,
+	measureDocstringCoverage,
+} from '../../services/DocstringCoverage.js';
+import {
+	applyDocstrings,
+	proposeDocstrings,
+} from '../../services/DocStringManager.js';
+import {docstringDiff} from '../../services/DocstringSplicer.js';
+import {DocstringFormat} from '../../services/Docstrings.js';
+import {SymbolDocumentation} from '../../types/docs.js';
+import {LoadingCat} from '../LoadingCat.js';
+
+type Decision = 'pending' | 'accepted' | 'rejected';
+
+interface Proposal {
+	symbol: SymbolDocumentation;
+	decision: Decision;
+}
+
+interface Review {
+	filePath: string; // Relative to the workspace
+	content: string; // What the proposals were made against
+	format: DocstringFormat;
+	proposals: Proposal[];
+}
+
+const DECISION_COLORS: Record<Decision, string> = {
+	pending: 'yellow',
+	accepted: 'green',
+	rejected: 'red',
+};
+
+function diffLineColor(line: string): string | undefined {
+	if (line.startsWith('+++') || line.startsWith('---')) return 'gray';
+	if (line.startsWith('@@')) return 'cyan';
+	if (line.startsWith('+')) return 'green';
+	if (line.startsWith('-')) return 'red';
+	return undefined;
+}
+
+/**
+ * Reviews proposed docstrings before they are written: pick a file with undocumented
+ * symbols, then accept, reject, edit or regenerate the docstring of each symbol shown
+ * as a diff. Only accepted docstrings are written, and only on request.
+ */
+export const ReviewMode: React.FC<{
+	workspacePath: string;
+	onBack: () => void;
+}> = ({workspacePath, onBack}) => {
+	const {stdout} = useStdout();
+	const terminalHeight = stdout?.rows ?? 24;
+
+	const docManagerRef = useRef<DocManager | null>(null);
+	if (!docManagerRef.current) {
+		docManagerRef.current = new DocManager(workspacePath);
+	}
+	const docManager = docManagerRef.current;
+
+	const [files, setFiles] = useState<FileCoverage[] | null>(null);
+	const [fileIndex, setFileIndex] = useState(0);
+	const [review, setReview] = useState<Review | null>(null);
+	const [current, setCurrent] = useState(0);
+	const [editText, setEditText] = useState<string | null>(null);
+	const [loadingMessage, setLoadingMessage] = useState<string | null>(null);
+	const [message, setMessage] = useState<string | null>(null);
+
+	const loadFiles = useCallback(async () => {
+		setLoadingMessage('Finding undocumented symbols...');
+		try {
+			const report = await measureDocstringCoverage(docManager);
+			setFiles(
+				report.files
+					.filter(file => file.documented < file.total)
+					.sort(
+						(a, b) =>
+							b.total - b.documented - (a.total - a.documented) ||
+							a.path.localeCompare(b.path),
+					),
+			);
+			setFileIndex(0);
+		} catch (error) {
+			setMessage(`Failed to measure coverage: ${error}`);
+		} finally {
+			setLoadingMessage(null);
+		}
+	}, [docManager]);
+
+	useEffect(() => {
+		loadFiles();
+		return () => {
+			docManager.directoryWatcher.close();
+		};
+	}, [docManager, loadFiles]);
+
+	const openFile = async (filePath: string) => {
+		setLoadingMessage(`Proposing docstrings for ${filePath}...`);
+		setMessage(null);
+		try {
+			const proposals = await proposeDocstrings(
+				path.join(workspacePath, filePath),
+				undefined,
+				workspacePath,
+			);
+			if (proposals.symbols.length === 0) {
+				setMessage(`No docstrings proposed for ${filePath}.`);
+				return;
+			}
+			setReview({
+				filePath,
+				content: proposals.content,
+				format: proposals.format,
+				proposals: proposals.symbols.map(symbol => ({
+					symbol,
+					decision: 'pending',
+				})),
+			});
+			setCurrent(0);
+		} catch (error) {
+			setMessage(`Failed to propose docstrings: ${error}`);
+		} finally {
+			setLoadingMessage(null);
+		}
+	};
+
+	const updateProposal = (index: number, update: Partial<Proposal>) => {
+		setReview(previous =>
+			previous
+				? {
+						...previous,
+						proposals: previous.proposals.map((proposal, proposalIndex) =>
+							proposalIndex === index ? {...proposal, ...update} : proposal,
+						),
+				  }
+				: previous,
+		);
+	};
+
+	const decide = (decision: Decision) => {
+		if (!review) return;
+		updateProposal(current, {decision});
+		setCurrent(Math.min(current + 1, review.proposals.length - 1));
+	};
+
+	const regenerate = async () => {
+		if (!review) return;
+		const {name} = review.proposals[current]!.symbol;
+		setLoadingMessage(`Regenerating ${name}...`);
+		setMessage(null);
+		try {
+			const proposals = await proposeDocstrings(
+				path.join(workspacePath, review.filePath),
+				[name],
+				workspacePath,
+			);
+			if (proposals.content !== review.content) {
+				setMessage(
+					`${review.filePath} changed on disk; press Esc and reopen it.`,
+				);
+			} else if (proposals.symbols[0]) {
+				updateProposal(current, {
+					symbol: proposals.symbols[0],
+					decision: 'pending',
+				});
+			} else {
+				setMessage(`No docstring proposed for ${name}.`);
+			}
+		} catch (error) {
+			setMessage(`Failed to regenerate ${name}: ${error}`);
+		} finally {
+			setLoadingMessage(null);
+		}
+	};
+
+	const write = async () => {
+		if (!review) return;
+		const accepted = review.proposals
+			.filter(proposal => proposal.decision === 'accepted')
+			.map(proposal => proposal.symbol);
+		if (accepted.length === 0) {
+			setMessage('Accept at least one docstring before writing.');
+			return;
+		}
+		try {
+			const inserted = applyDocstrings(
+				path.join(workspacePath, review.filePath),
+				review.content,
+				accepted,
+				workspacePath,
+			);
+			setReview(null);
+			setMessage(
+				`Wrote ${inserted.length} docstring${
+					inserted.length === 1 ? '' : 's'
+				} to ${review.filePath}.`,
+			);
+			await loadFiles();
+		} catch (error) {
+			setMessage(`Nothing written: ${error}`);
+		}
+	};
+
+	useInput(async (input, key) => {
+		if (loadingMessage) return;
+		if (editText !== null) {
+			if (key.escape) setEditText(null);
+			return; // TextInput handles the rest
+		}
+
+		if (!review) {
+			if (key.escape) {
+				onBack();
+			} else if (key.upArrow) {
+				setFileIndex(Math.max(0, fileIndex - 1));
+			} else if (key.downArrow) {
+				setFileIndex(Math.min((files?.length ?? 1) - 1, fileIndex + 1));
+			} else if (key.return && files?.[fileIndex]) {
+				await openFile(files[fileIndex]!.path);
+			}
+			return;
+		}
+
+		if (key.escape) {
+			setReview(null);
+			setMessage('Review discarded, nothing written.');
+		} else if (key.leftArrow || key.upArrow) {
+			setCurrent(Math.max(0, current - 1));
+		} else if (key.rightArrow || key.downArrow) {
+			setCurrent(Math.min(review.proposals.length - 1, current + 1));
+		} else if (input === 'a') {
+			decide('accepted');
+		} else if (input === 'r') {
+			decide('rejected');
+		} else if (input === 'e') {
+			setEditText(review.proposals[current]!.symbol.description);
+		} else if (input === 'g') {
+			await regenerate();
+		} else if (input === 'w') {
+			await write();
+		}
+	});
+
+	const submitEdit = (description: string) => {
+		if (description.trim()) {
+			updateProposal(current, {
+				symbol: {
+					...review!.proposals[current]!.symbol,
+					description: description.trim(),
+				},
+				decision: 'accepted',
+			});
+		}
+		setEditText(null);
+	};
+
+	const header = (
+		<Box
+			borderStyle="round"
+			borderColor="cyan"
+			paddingX={1}
+			flexDirection="column"
+		>
+			<Text bold color="blue">
+				Docstring Review
+			</Text>
+			<Text dimColor>
+				{review
+					? 'a: Accept | r: Reject | e: Edit | g: Regenerate | ←/→: Move | w: Write accepted | Esc: Discard'
+					: '↑/↓: Select | Enter: Propose docstrings | Esc: Back'}
+			</Text>
+		</Box>
+	);
+	const footer = message && (
+		<Box paddingX={1}>
+			<Text color="yellow">{message}</Text>
+		</Box>
+	);
+
+	if (loadingMessage) {
+		return (
+			<Box flexDirection="column" height={terminalHeight}>
+				{header}
+				<LoadingCat message={loadingMessage} isRunning={true} />
+			</Box>
+		);
+	}
+
+	if (!review) {
+		const visibleCount = Math.max(1, terminalHeight - 8);
+		const start = Math.max(
+			0,
+			Math.min(
+				fileIndex - Math.floor(visibleCount / 2),
+				(files?.length ?? 0) - visibleCount,
+			),
+		);
+		return (
+			<Box flexDirection="column" height={terminalHeight}>
+				{header}
+				<Box flexDirection="column" paddingX={1} flexGrow={1}>
+					{files && files.length === 0 ? (
+						<Text color="green">
+							Every class, method and function has a docstring.
+						</Text>
+					) : (
+						files?.slice(start, start + visibleCount).map((file, index) => {
+							const isFocused = start + index === fileIndex;
+							return (
+								<Text
+									key={file.path}
+									color={isFocused ? 'blue' : undefined}
+									bold={isFocused}
+								>
+									{`${isFocused ? '› ' : '  '}${file.path} `}
+									<Text dimColor>{`${
+										file.total - file.documented
+									} undocumented of ${file.total}`}</Text>
+								</Text>
+							);
+						})
+					)}
+				</Box>
+				{footer}
+			</Box>
+		);
+	}
+
+	const proposal = review.proposals[current]!;
+	let diff: string;
+	try {
+		diff =
+			docstringDiff(
+				path.join(workspacePath, review.filePath),
+				review.content,
+				proposal.symbol,
+				review.format,
+				review.filePath,
+			) ?? `${proposal.symbol.name} can no longer take a docstring.`;
+	} catch (error) {
+		diff = String(error);
+	}
+	const counts = review.proposals.reduce(
+		(totals, {decision}) => ({...totals, [decision]: totals[decision] + 1}),
+		{pending: 0, accepted: 0, rejected: 0} as Record<Decision, number>,
+	);
+
+	return (
+		<Box flexDirection="column" height={terminalHeight}>
+			{header}
+			<Box paddingX={1} justifyContent="space-between">
+				<Text>
+					<Text bold>{review.filePath}</Text>
+					{` · ${current + 1}/${review.proposals.length} `}
+					<Text color={DECISION_COLORS[proposal.decision]}>
+						{proposal.decision}
+					</Text>
+				</Text>
+				<Text dimColor>
+					{`${counts.accepted} accepted, ${counts.rejected} rejected, ${counts.pending} pending`}
+				</Text>
+			</Box>
+			<Box
+				flexDirection="column"
+				borderStyle="single"
+				borderColor="gray"
+				paddingX={1}
+				flexGrow={1}
+				overflow="hidden"
+			>
+				{diff
+					.split('\n')
+					.slice(0, Math.max(1, terminalHeight - 11))
+					.map((line, index) => (
+						<Text key={index} color={diffLineColor(line)}>
+							{line.replace(/\t/g, '  ') || ' '}
+						</Text>
+					))}
+			</Box>
+			{editText !== null && (
+				<Box paddingX={1}>
+					<Text>Description: </Text>
+					<TextInput
+						value={editText}
+						onChange={setEditText}
+						onSubmit={submitEdit}
+						showCursor
+					/>
+				</Box>
+			)}
+			{footer}
+		</Box>
+	);
+};
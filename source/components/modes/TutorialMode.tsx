@@ -1,6 +1,7 @@
 import React, {useState, useEffect, useRef} from 'react';
 import {Box, Text, useInput, useStdout} from 'ink';
 import {LoadingCat} from '../LoadingCat.js';
+import {userSecretsPath} from '../../services/ConfigManagement.js';
 
 interface TutorialProps {
 	onBack: () => void;
@@ -92,7 +93,7 @@ export const Tutorial: React.FC<TutorialProps> = ({onBack}) => {
 				'• Press Enter to save',
 				'• Press E to edit existing configuration',
 				'',
-				'Your API key is stored locally in catdoc.config.json',
+				`Your API key is stored locally in ${userSecretsPath()}`,
 				'',
 				'Your .catdoc directory is automatically added to .gitignore',
 			],
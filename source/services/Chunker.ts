@@ -0,0 +1,144 @@
+import {CodeItem, getFileStructure} from './treesitter.js';
+
+export interface CodeChunk {
+	startLine: number; // 1-based, inclusive
+	endLine: number; // 1-based, inclusive
+	symbols: string[]; // Names of the classes/functions the chunk covers
+	text: string;
+}
+
+interface LineRange {
+	startLine: number;
+	endLine: number;
+	symbols: string[];
+}
+
+/**
+ * Splits source code into chunks of at most `maxChars` characters whose boundaries fall
+ * between top-level symbols (or between methods, for classes too large for one chunk).
+ * Files tree-sitter can't parse, and single functions that are still too large, are split
+ * on line boundaries.
+ *
+ * @param filePath Path used to pick the grammar
+ * @param content Source code to split
+ * @param maxChars Upper bound for each chunk's length
+ * @returns The chunks in file order, a single chunk when the content already fits
+ */
+export function chunkSource(
+	filePath: string,
+	content: string,
+	maxChars: number,
+): CodeChunk[] {
+	const lines = content.split('\n');
+	if (content.length <= maxChars) {
+		return [{startLine: 1, endLine: lines.length, symbols: [], text: content}];
+	}
+
+	const items = getFileStructure(filePath, content)?.items ?? [];
+	const ranges = splitRange(lines, items, 1, lines.length, maxChars, '');
+
+	// Greedily pack consecutive ranges into chunks
+	const chunks: CodeChunk[] = [];
+	let current: LineRange | null = null;
+	for (const range of ranges) {
+		if (
+			current &&
+			rangeLength(lines, current.startLine, range.endLine) <= maxChars
+		) {
+			current.endLine = range.endLine;
+			current.symbols.push(...range.symbols);
+		} else {
+			if (current) chunks.push(toChunk(lines, current));
+			current = {...range, symbols: [...range.symbols]};
+		}
+	}
+	if (current) chunks.push(toChunk(lines, current));
+	return chunks;
+}
+
+/**
+ * Covers lines [startLine, endLine] with ranges that each fit in maxChars where possible,
+ * cutting at the boundaries of the given items. Lines between items go with the next item
+ * so leading comments stay attached to their symbol.
+ */
+function splitRange(
+	lines: string[],
+	items: CodeItem[],
+	startLine: number,
+	endLine: number,
+	maxChars: number,
+	namePrefix: string,
+): LineRange[] {
+	const ranges: LineRange[] = [];
+	let cursor = startLine;
+	const sortedItems = items
+		.filter(item => item.startLine >= startLine && item.endLine <= endLine)
+		.sort((a, b) => a.startLine - b.startLine);
+
+	for (const item of sortedItems) {
+		if (item.endLine < cursor) continue; // Nested inside a range already emitted
+		const name = `${namePrefix}${item.name}`;
+		if (rangeLength(lines, cursor, item.endLine) <= maxChars) {
+			ranges.push({startLine: cursor, endLine: item.endLine, symbols: [name]});
+		} else if (item.children && item.children.length > 0) {
+			ranges.push(
+				...splitRange(
+					lines,
+					item.children,
+					cursor,
+					item.endLine,
+					maxChars,
+					`${name}.`,
+				),
+			);
+		} else {
+			ranges.push(
+				...splitByLines(lines, cursor, item.endLine, maxChars, [name]),
+			);
+		}
+		cursor = item.endLine + 1;
+	}
+
+	if (cursor <= endLine) {
+		ranges.push(...splitByLines(lines, cursor, endLine, maxChars, []));
+	}
+	return ranges;
+}
+
+function splitByLines(
+	lines: string[],
+	startLine: number,
+	endLine: number,
+	maxChars: number,
+	symbols: string[],
+): LineRange[] {
+	const ranges: LineRange[] = [];
+	let rangeStart = startLine;
+	let length = 0;
+	for (let line = startLine; line <= endLine; line++) {
+		const lineLength = (lines[line - 1]?.length ?? 0) + 1;
+		if (length > 0 && length + lineLength > maxChars) {
+			ranges.push({startLine: rangeStart, endLine: line - 1, symbols});
+			rangeStart = line;
+			length = 0;
+		}
+		length += lineLength;
+	}
+	ranges.push({startLine: rangeStart, endLine, symbols});
+	return ranges;
+}
+
+function rangeLength(lines: string[], startLine: number, endLine: number) {
+	let length = 0;
+	for (let line = startLine; line <= endLine; line++) {
+		length += (lines[line - 1]?.length ?? 0) + 1;
+	}
+	return length - 1;
+}
+
+function toChunk(lines: string[], range: LineRange): CodeChunk {
+	return {
+		...range,
+		text: lines.slice(range.startLine - 1, range.endLine).join('\n'),
+	};
+}
@@ -1,6 +1,17 @@
+import {EventEmitter} from 'node:events';
 import {fileURLToPath} from 'url';
 import path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
+import {writeFileWithJournal} from './UndoJournal.js';
+import {
+	CatdocConfigFile,
+	DOCSTRING_STYLES,
+	DocstringStyle,
+	PROVIDER_NAMES,
+	validateConfig,
+	validateSecrets,
+} from './ConfigSchema.js';
 
 /**
  * Gets the project root directory from the current file
@@ -20,18 +31,519 @@ export function getProjectRoot(levelsUp = 2): string {
 	return path.resolve(__dirname, ...Array(levelsUp).fill('..'));
 }
 
-// Usage:
-const projectRoot = getProjectRoot();
-const configPath = path.join(projectRoot, 'catdoc.config.json');
-export const apiKey = JSON.parse(
-	fs.readFileSync(configPath, 'utf8'),
-).google_api_key;
+// Read for compatibility: older versions kept the settings in the install directory
+const legacyConfigPath = path.join(getProjectRoot(), 'catdoc.config.json');
 
-export function updateApiKey(key: string) {
-	let configContents = fs.readFileSync(configPath, {encoding: 'utf8'});
-	let configJson = JSON.parse(configContents);
-	configJson.google_api_key = key;
-	fs.writeFileSync(configPath, JSON.stringify(configJson));
+let projectDirectory = process.cwd();
+
+/**
+ * Sets the project whose .catdoc/config.json applies, the working directory by default
+ */
+export function setConfigProjectDirectory(directory: string) {
+	projectDirectory = path.resolve(directory);
+}
+
+/**
+ * Path of the user-level configuration, shared by every project:
+ * $XDG_CONFIG_HOME/catdoc/config.json (or ~/.config/catdoc/config.json)
+ */
+export function userConfigPath(): string {
+	return path.join(
+		process.env['XDG_CONFIG_HOME'] || path.join(os.homedir(), '.config'),
+		'catdoc',
+		'config.json',
+	);
+}
+
+/**
+ * Path of the user's secrets file, which keeps API keys apart from the settings. It is
+ * only used while no one else can read it (chmod 600).
+ */
+export function userSecretsPath(): string {
+	return path.join(path.dirname(userConfigPath()), 'secrets.json');
+}
+
+/**
+ * Path of the project-level configuration, which overrides the user-level one
+ */
+export function projectConfigPath(): string {
+	return path.join(projectDirectory, '.catdoc', 'config.json');
+}
+
+// A cloned repository must not choose where requests go, and with them the user's
+// keys and code, nor which credentials or cache directory are used
+const USER_ONLY_SETTINGS: Array<keyof CatdocConfigFile> = [
+	'google_api_key',
+	'openai_api_key',
+	'openai_base_url',
+	'cache_dir',
+];
+
+function readProjectConfigFile(filePath: string): ConfigLayer {
+	const layer = readConfigFile(filePath);
+	const config = {...layer.config};
+	const problems = [...layer.problems];
+	for (const key of USER_ONLY_SETTINGS) {
+		if (config[key] !== undefined) {
+			delete config[key];
+			problems.push(
+				`"${key}" can only be set in ${userConfigPath()}, ${userSecretsPath()} or the environment`,
+			);
+		}
+	}
+	return {...layer, config, problems};
+}
+
+type EnvironmentType = 'string' | 'number' | 'boolean' | 'list';
+
+// Environment variables override every file, converted to the JSON types they stand for
+const ENVIRONMENT_SETTINGS: Array<
+	[string, keyof CatdocConfigFile, EnvironmentType]
+> = [
+	['CATDOC_PROVIDER', 'provider', 'string'],
+	['CATDOC_MODEL', 'model', 'string'],
+	['CATDOC_OPENAI_BASE_URL', 'openai_base_url', 'string'],
+	['CATDOC_CONCURRENCY', 'concurrency', 'number'],
+	['CATDOC_IGNORE', 'ignore', 'list'],
+	['CATDOC_OUTPUT_DIR', 'output_dir', 'string'],
+	['CATDOC_DOCSTRING_STYLE', 'docstring_style', 'list'],
+	['CATDOC_DEBUG', 'debug_mode', 'boolean'],
+	// Later variables win. OPENAI_API_KEY isn't read: `openai_base_url` may point
+	// at another service, which shouldn't receive the user's OpenAI key.
+	['GEMINI_API_KEY', 'google_api_key', 'string'],
+	['GOOGLE_API_KEY', 'google_api_key', 'string'],
+	['CATDOC_GOOGLE_API_KEY', 'google_api_key', 'string'],
+	['CATDOC_OPENAI_API_KEY', 'openai_api_key', 'string'],
+];
+
+// Values that don't convert are passed on as strings, so validation reports them
+function environmentValue(value: string, type: EnvironmentType): unknown {
+	switch (type) {
+		case 'number':
+			return value.trim() !== '' && !Number.isNaN(Number(value))
+				? Number(value)
+				: value;
+		case 'boolean':
+			if (['1', 'true', 'yes'].includes(value.toLowerCase())) return true;
+			if (['0', 'false', 'no'].includes(value.toLowerCase())) return false;
+			return value;
+		case 'list':
+			return value
+				.split(',')
+				.map(entry => entry.trim())
+				.filter(Boolean);
+		default:
+			return value;
+	}
+}
+
+export interface ConfigLayer {
+	source: string; // File path or environment variable
+	found: boolean;
+	config: CatdocConfigFile; // Only the valid settings
+	problems: string[];
+}
+
+function readConfigFile(
+	filePath: string,
+	validate = validateConfig,
+): ConfigLayer {
+	if (!fs.existsSync(filePath)) {
+		return {source: filePath, found: false, config: {}, problems: []};
+	}
+	try {
+		const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+		return {source: filePath, found: true, ...validate(raw)};
+	} catch (error) {
+		return {
+			source: filePath,
+			found: true,
+			config: {},
+			problems: [`cannot be read: ${(error as Error).message}`],
+		};
+	}
+}
+
+// Keys readable by other users may already have leaked, so they are refused
+function readSecretsFile(filePath: string): ConfigLayer {
+	const layer = readConfigFile(filePath, validateSecrets);
+	if (!layer.found || process.platform === 'win32') {
+		return layer;
+	}
+	const mode = fs.statSync(filePath).mode & 0o777;
+	if ((mode & 0o077) === 0) {
+		return layer;
+	}
+	return {
+		...layer,
+		config: {},
+		problems: [
+			`is readable by other users (mode ${mode.toString(
+				8,
+			)}), run chmod 600 ${filePath}`,
+			...layer.problems,
+		],
+	};
+}
+
+/**
+ * Every source of settings, from lowest to highest precedence: the legacy
+ * catdoc.config.json of the install directory, the user-level file, the project's
+ * .catdoc/config.json, the user's secrets file, then environment variables. Unset and
+ * empty variables are skipped.
+ */
+export function configLayers(): ConfigLayer[] {
+	const environment = ENVIRONMENT_SETTINGS.filter(([variable]) =>
+		Boolean(process.env[variable]),
+	).map(([variable, key, type]): ConfigLayer => {
+		const {config, problems} = validateConfig({
+			[key]: environmentValue(process.env[variable]!, type),
+		});
+		return {source: variable, found: true, config, problems};
+	});
+	return [
+		readConfigFile(legacyConfigPath),
+		readConfigFile(userConfigPath()),
+		readProjectConfigFile(projectConfigPath()),
+		readSecretsFile(userSecretsPath()),
+		...environment,
+	];
+}
+
+// Objects such as `models` are merged key by key, everything else is replaced
+function mergeConfig(
+	base: CatdocConfigFile,
+	override: CatdocConfigFile,
+): CatdocConfigFile {
+	const merged: Record<string, unknown> = {...base};
+	for (const [key, value] of Object.entries(override)) {
+		const previous = merged[key];
+		merged[key] =
+			typeof value === 'object' &&
+			!Array.isArray(value) &&
+			typeof previous === 'object' &&
+			!Array.isArray(previous)
+				? {...previous, ...value}
+				: value;
+	}
+	return merged as CatdocConfigFile;
+}
+
+/**
+ * Reads the effective configuration: every layer of `configLayers` merged, leaving out
+ * invalid settings (reported by `configProblems`)
+ *
+ * @returns The merged configuration, an empty object if nothing is configured
+ */
+export function readConfig(): CatdocConfigFile {
+	return configLayers().reduce<CatdocConfigFile>(
+		(merged, layer) => mergeConfig(merged, layer.config),
+		{},
+	);
+}
+
+export interface ApiKeySource {
+	provider: ProviderName;
+	key?: string;
+	source?: string; // The file, or $VARIABLE, the active key comes from
+	searched: string[]; // Where a key may come from, highest precedence first
+}
+
+/**
+ * Finds the API key the provider uses and where it comes from, for showing users which
+ * of their files and variables is in effect. The fake provider needs no key.
+ */
+export function getApiKeySource(
+	provider: ProviderName = getProviderConfig().provider,
+): ApiKeySource {
+	if (provider === 'fake') {
+		return {provider, searched: []};
+	}
+	const field = provider === 'openai' ? 'openai_api_key' : 'google_api_key';
+	const layers = configLayers();
+	const searched = [
+		...ENVIRONMENT_SETTINGS.filter(([, key]) => key === field)
+			.map(([variable]) => `$${variable}`)
+			.reverse(),
+		...layers
+			.filter(layer => layer.source.endsWith('.json'))
+			.map(layer => layer.source)
+			.reverse(),
+	];
+	const active = [...layers].reverse().find(layer => layer.config[field]);
+	if (!active) {
+		return {provider, searched};
+	}
+	return {
+		provider,
+		key: active.config[field],
+		source: active.source.endsWith('.json')
+			? active.source
+			: `$${active.source}`,
+		searched,
+	};
+}
+
+/**
+ * Every invalid setting of every layer, prefixed with where it was found
+ */
+export function configProblems(): string[] {
+	return configLayers().flatMap(layer =>
+		layer.problems.map(problem => `${layer.source}: ${problem}`),
+	);
+}
+
+/**
+ * Changes one of the user's JSON files, creating it if needed, readable only by the
+ * user in case it holds API keys
+ *
+ * @throws If the existing file isn't valid JSON, rather than overwriting it
+ */
+function updateUserFile(
+	filePath: string,
+	update: (configJson: Record<string, unknown>) => void,
+) {
+	const configJson: Record<string, unknown> = fs.existsSync(filePath)
+		? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+		: {};
+	update(configJson);
+	fs.mkdirSync(path.dirname(filePath), {recursive: true});
+	fs.writeFileSync(filePath, JSON.stringify(configJson, null, 2), {
+		mode: 0o600,
+	});
+	fs.chmodSync(filePath, 0o600); // The mode above only applies to new files
+	notifyConfigChange();
+}
+
+const configEvents = new EventEmitter<{changed: []}>();
+let watchedConfigFiles: string[] = [];
+const notifyConfigChange = () => configEvents.emit('changed');
+
+/**
+ * Calls the listener whenever a configuration file changes or a setting is saved, so
+ * long-lived objects pick up a new provider or API key without a restart. The files
+ * are polled, and don't keep the process alive.
+ *
+ * @returns A function that stops listening
+ */
+export function onConfigChange(listener: () => void): () => void {
+	if (watchedConfigFiles.length === 0) {
+		watchedConfigFiles = [
+			legacyConfigPath,
+			userConfigPath(),
+			projectConfigPath(),
+			userSecretsPath(),
+		];
+		for (const filePath of watchedConfigFiles) {
+			fs.watchFile(
+				filePath,
+				{persistent: false, interval: 2000},
+				notifyConfigChange,
+			);
+		}
+	}
+	configEvents.on('changed', listener);
+	return () => {
+		configEvents.off('changed', listener);
+		if (configEvents.listenerCount('changed') === 0) {
+			for (const filePath of watchedConfigFiles) {
+				fs.unwatchFile(filePath, notifyConfigChange);
+			}
+			watchedConfigFiles = [];
+		}
+	};
+}
+
+/**
+ * Gets how many files are documented at once
+ */
+export function getConcurrency(): number {
+	return readConfig().concurrency ?? 3;
+}
+
+/**
+ * Gets the gitignore-style globs of files that are never documented
+ */
+export function getIgnorePatterns(): string[] {
+	return readConfig().ignore ?? [];
+}
+
+/**
+ * Gets the directory documentation is written to, relative to the project
+ */
+export function getOutputDir(): string {
+	return readConfig().output_dir ?? 'docs';
+}
+
+export type ProviderName = 'google' | 'openai' | 'fake';
+
+export interface ProviderConfig {
+	provider: ProviderName;
+	models: {summary?: string; docstring?: string; chat?: string};
+	baseUrl?: string;
+	apiKey?: string;
+}
+
+/**
+ * Checks whether catdoc should run without network access, either through the
+ * CATDOC_OFFLINE environment variable or `offline: true` in the configuration file
+ */
+export function isOfflineMode(): boolean {
+	const envValue = process.env['CATDOC_OFFLINE'];
+	if (envValue !== undefined && envValue !== '') {
+		return !['0', 'false', 'no'].includes(envValue.toLowerCase());
+	}
+	return Boolean(readConfig().offline);
+}
+
+/**
+ * Gets the LLM provider settings from the configuration file.
+ * Offline mode always selects the deterministic fake provider.
+ * `model` applies to every task, `models` overrides it per task.
+ * @returns The provider configuration, defaulting to Google
+ */
+export function getProviderConfig(): ProviderConfig {
+	const configJson = readConfig();
+	const provider = (
+		isOfflineMode()
+			? 'fake'
+			: PROVIDER_NAMES.includes(configJson.provider as ProviderName)
+			? configJson.provider
+			: 'google'
+	) as ProviderName;
+	const model: string | undefined = configJson.model || undefined;
+
+	return {
+		provider,
+		models: {
+			summary: configJson.models?.summary || model,
+			docstring: configJson.models?.docstring || model,
+			chat: configJson.models?.chat || model,
+		},
+		baseUrl: configJson.openai_base_url || undefined,
+		apiKey:
+			provider === 'openai'
+				? configJson.openai_api_key || undefined
+				: configJson.google_api_key || undefined,
+	};
+}
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteConfig {
+	mode: CassetteMode;
+	dir: string;
+}
+
+/**
+ * Gets the record/replay settings for LLM requests. CATDOC_CASSETTE and
+ * CATDOC_CASSETTE_DIR take precedence over the `cassette` entry of the configuration file,
+ * whose directory must be inside the project. A relative directory is resolved against
+ * the project, wherever catdoc runs from.
+ * @returns The cassette settings, or null when requests go straight to the provider
+ */
+export function getCassetteConfig(): CassetteConfig | null {
+	const configJson = readConfig();
+	const mode =
+		process.env['CATDOC_CASSETTE'] || configJson.cassette?.mode || '';
+	if (mode !== 'record' && mode !== 'replay') {
+		return null;
+	}
+	const dir =
+		process.env['CATDOC_CASSETTE_DIR'] ||
+		configJson.cassette?.dir ||
+		path.join('.catdoc', 'cassettes');
+	return {mode, dir: path.resolve(projectDirectory, dir)};
+}
+
+/**
+ * Gets the directory of the persistent summary cache, shared by every clone and branch.
+ * Defaults to $XDG_CACHE_HOME/catdoc (or ~/.cache/catdoc), overridable with
+ * CATDOC_CACHE_DIR or `cache_dir`.
+ * @returns The cache directory, or null when caching is disabled. It is always disabled
+ * for the fake provider and while recording or replaying cassettes.
+ */
+export function getSummaryCacheDir(): string | null {
+	const configJson = readConfig();
+	if (
+		configJson.summary_cache === false ||
+		getProviderConfig().provider === 'fake' ||
+		getCassetteConfig()
+	) {
+		return null;
+	}
+	const baseDir =
+		process.env['CATDOC_CACHE_DIR'] ||
+		configJson.cache_dir ||
+		path.join(
+			process.env['XDG_CACHE_HOME'] || path.join(os.homedir(), '.cache'),
+			'catdoc',
+		);
+	return path.join(baseDir, 'summaries');
+}
+
+export interface RateLimitConfig {
+	requestsPerMinute: number;
+	tokensPerMinute: number;
+	maxRetries: number;
+}
+
+/**
+ * Gets the request budgets and retry policy for model calls made by the documentation queue
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+	const rateLimit = readConfig().rate_limit ?? {};
+	const positive = (value: number | undefined, fallback: number) =>
+		typeof value === 'number' && value > 0 ? value : fallback;
+	return {
+		requestsPerMinute: positive(rateLimit.requests_per_minute, 30),
+		tokensPerMinute: positive(rateLimit.tokens_per_minute, 250000),
+		maxRetries:
+			typeof rateLimit.max_retries === 'number' && rateLimit.max_retries >= 0
+				? rateLimit.max_retries
+				: 4,
+	};
+}
+
+export interface DocstringStyleConfig {
+	styles: DocstringStyle[]; // Project-wide, at most one per language
+	overrides: Array<{pattern: string; style: DocstringStyle}>; // In configuration order
+}
+
+const isDocstringStyle = (value: unknown): value is DocstringStyle =>
+	DOCSTRING_STYLES.includes(value as DocstringStyle);
+
+/**
+ * Gets the docstring styles chosen for the project and per path glob. Unknown style
+ * names are ignored, leaving the language's default in place.
+ */
+export function getDocstringStyleConfig(): DocstringStyleConfig {
+	const configJson = readConfig();
+	const styles = [configJson.docstring_style ?? []].flat();
+	return {
+		styles: styles.filter(isDocstringStyle),
+		overrides: Object.entries(configJson.docstring_styles ?? {})
+			.filter(([, style]) => isDocstringStyle(style))
+			.map(([pattern, style]) => ({
+				pattern,
+				style: style as DocstringStyle,
+			})),
+	};
+}
+
+/**
+ * Saves a provider's API key in the user's secrets file, the configured provider's by
+ * default. Keys from environment variables still take precedence (see
+ * `getApiKeySource`).
+ */
+export function updateApiKey(
+	key: string,
+	provider: ProviderName = getProviderConfig().provider,
+) {
+	updateUserFile(userSecretsPath(), configJson => {
+		configJson[provider === 'openai' ? 'openai_api_key' : 'google_api_key'] =
+			key;
+	});
 }
 
 /**
@@ -43,12 +555,19 @@ export function updateApiKey(key: string) {
  */
 export function gitignoreCatdocDirectories(directoryPath: string): void {
 	const gitignorePath = path.join(directoryPath, '.gitignore');
+	const outputDir = path
+		.relative(directoryPath, path.resolve(directoryPath, getOutputDir()))
+		.replace(/\\/g, '/');
 	const catdocDirsToIgnore = [
 		'logs/',
-		'docs/',
+		// Only an output directory inside the project can be ignored
+		...(outputDir && !outputDir.startsWith('..') && !path.isAbsolute(outputDir)
+			? [`${outputDir}/`]
+			: []),
 		'.catdoc.cache.json',
 		'*.tree.json',
 		'*.cache.json',
+		'.catdoc/journal/',
 	];
 
 	try {
@@ -95,33 +614,31 @@ export function gitignoreCatdocDirectories(directoryPath: string): void {
 			newContent += '\n';
 
 			// Write the updated gitignore
-			fs.writeFileSync(gitignorePath, newContent, 'utf-8');
+			writeFileWithJournal(
+				directoryPath,
+				gitignorePath,
+				newContent,
+				'gitignore',
+			);
 		} else {
 		}
 	} catch (error) {}
 }
 
 /**
- * Updates the debug mode setting in the configuration file
+ * Updates the debug mode setting in the user-level configuration
  * @param enabled Whether debug mode should be enabled
  */
 export function updateDebugMode(enabled: boolean) {
-	let configContents = fs.readFileSync(configPath, {encoding: 'utf8'});
-	let configJson = JSON.parse(configContents);
-	configJson.debug_mode = enabled;
-	fs.writeFileSync(configPath, JSON.stringify(configJson, null, 2));
+	updateUserFile(userConfigPath(), configJson => {
+		configJson['debug_mode'] = enabled;
+	});
 }
 
 /**
- * Gets the current debug mode setting from the configuration file
+ * Gets the current debug mode setting from the configuration
  * @returns Whether debug mode is enabled
  */
 export function getDebugMode(): boolean {
-	try {
-		let configContents = fs.readFileSync(configPath, {encoding: 'utf8'});
-		let configJson = JSON.parse(configContents);
-		return !!configJson.debug_mode; // Convert to boolean
-	} catch (error) {
-		return false; // Default to false if there's an error
-	}
+	return Boolean(readConfig().debug_mode);
 }
@@ -0,0 +1,231 @@
+import path from 'node:path';
+
+export const DOCSTRING_STYLES = [
+	'tsdoc',
+	'jsdoc',
+	'google',
+	'numpy',
+	'sphinx',
+] as const;
+
+export type DocstringStyle = (typeof DOCSTRING_STYLES)[number];
+
+export const PROVIDER_NAMES = ['google', 'openai', 'fake'] as const;
+
+/**
+ * Shape of a catdoc configuration file. Every key is optional.
+ */
+export interface CatdocConfigFile {
+	google_api_key?: string;
+	debug_mode?: boolean;
+	provider?: string;
+	model?: string;
+	models?: {summary?: string; docstring?: string; chat?: string};
+	openai_base_url?: string;
+	openai_api_key?: string;
+	offline?: boolean;
+	cassette?: {mode?: string; dir?: string};
+	summary_cache?: boolean;
+	cache_dir?: string;
+	rate_limit?: {
+		requests_per_minute?: number;
+		tokens_per_minute?: number;
+		max_retries?: number;
+	};
+	concurrency?: number; // Files documented at once
+	ignore?: string[]; // Gitignore-style globs of files never documented
+	output_dir?: string; // Where documentation is written, relative to the project
+	docstring_style?: string | string[]; // One style, or one per language, e.g. ["tsdoc", "numpy"]
+	docstring_styles?: Record<string, string>; // Path glob -> style; the last matching glob wins
+}
+
+// Returns a problem per invalid value, naming the key it was found under
+type Check = (value: unknown, key: string) => string[];
+
+const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const check =
+	(test: (value: unknown) => boolean, expected: string): Check =>
+	(value, key) =>
+		test(value) ? [] : [`"${key}" must be ${expected}, got ${describe(value)}`];
+
+const string = check(value => typeof value === 'string', 'a string');
+const nonEmptyString = check(
+	value => typeof value === 'string' && value.trim() !== '',
+	'a non-empty string',
+);
+const projectPath = check(
+	value =>
+		typeof value === 'string' &&
+		value.trim() !== '' &&
+		path.normalize(value) !== '.' &&
+		!path.isAbsolute(value) &&
+		!path.normalize(value).split(/[\\/]/).includes('..'),
+	'a path inside the project',
+);
+const boolean = check(value => typeof value === 'boolean', 'true or false');
+const integerFrom = (minimum: number) =>
+	check(
+		value => Number.isInteger(value) && (value as number) >= minimum,
+		minimum === 1 ? 'a positive integer' : `an integer of at least ${minimum}`,
+	);
+const oneOf = (values: readonly string[]) =>
+	check(
+		value => values.includes(value as string),
+		`one of ${values.map(entry => `"${entry}"`).join(', ')}`,
+	);
+const arrayOf =
+	(item: Check): Check =>
+	(value, key) =>
+		Array.isArray(value)
+			? value.flatMap((entry, index) => item(entry, `${key}[${index}]`))
+			: [`"${key}" must be a list, got ${describe(value)}`];
+const oneOrMany =
+	(item: Check): Check =>
+	(value, key) =>
+		Array.isArray(value) ? arrayOf(item)(value, key) : item(value, key);
+
+/**
+ * Edit distance, to suggest the setting a misspelled key meant
+ */
+function distance(a: string, b: string): number {
+	let previous = Array.from({length: b.length + 1}, (_, index) => index);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j]! + 1,
+				current[j - 1]! + 1,
+				previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length]!;
+}
+
+function unknownKey(key: string, field: string, known: string[]): string {
+	const suggestion = known.find(name => distance(name, field) <= 2);
+	return `"${key}" is not a known setting${
+		suggestion ? ` (did you mean "${suggestion}"?)` : ''
+	}`;
+}
+
+const objectOf =
+	(fields: Record<string, Check>): Check =>
+	(value, key) => {
+		if (!isPlainObject(value)) {
+			return [`"${key}" must be an object, got ${describe(value)}`];
+		}
+		return Object.entries(value).flatMap(([field, fieldValue]) => {
+			const fieldCheck = fields[field];
+			return fieldCheck
+				? fieldCheck(fieldValue, `${key}.${field}`)
+				: [unknownKey(`${key}.${field}`, field, Object.keys(fields))];
+		});
+	};
+const recordOf =
+	(entry: Check): Check =>
+	(value, key) =>
+		isPlainObject(value)
+			? Object.entries(value).flatMap(([field, fieldValue]) =>
+					entry(fieldValue, `${key}.${field}`),
+			  )
+			: [`"${key}" must be an object, got ${describe(value)}`];
+
+/**
+ * What every setting must look like, enforced by `validateConfig`
+ */
+export const CONFIG_SCHEMA: Record<keyof CatdocConfigFile, Check> = {
+	google_api_key: string,
+	debug_mode: boolean,
+	provider: oneOf(PROVIDER_NAMES),
+	model: nonEmptyString,
+	models: objectOf({
+		summary: nonEmptyString,
+		docstring: nonEmptyString,
+		chat: nonEmptyString,
+	}),
+	openai_base_url: check(
+		value => typeof value === 'string' && /^https?:\/\/\S+$/.test(value),
+		'an http(s) URL',
+	),
+	openai_api_key: string,
+	offline: boolean,
+	cassette: objectOf({
+		mode: oneOf(['record', 'replay']),
+		// Recordings hold prompts, and with them source code
+		dir: projectPath,
+	}),
+	summary_cache: boolean,
+	cache_dir: nonEmptyString,
+	rate_limit: objectOf({
+		requests_per_minute: integerFrom(1),
+		tokens_per_minute: integerFrom(1),
+		max_retries: integerFrom(0),
+	}),
+	concurrency: integerFrom(1),
+	ignore: arrayOf(nonEmptyString),
+	output_dir: projectPath,
+	docstring_style: oneOrMany(oneOf(DOCSTRING_STYLES)),
+	docstring_styles: recordOf(oneOf(DOCSTRING_STYLES)),
+};
+
+// Validates each key of an object against the check of the same name
+function validate(
+	schema: Record<string, Check>,
+	raw: unknown,
+): {config: CatdocConfigFile; problems: string[]} {
+	if (!isPlainObject(raw)) {
+		return {config: {}, problems: ['must be a JSON object']};
+	}
+	const config: Record<string, unknown> = {};
+	const problems: string[] = [];
+	for (const [key, value] of Object.entries(raw)) {
+		const keyCheck = schema[key];
+		if (!keyCheck) {
+			problems.push(unknownKey(key, key, Object.keys(schema)));
+			continue;
+		}
+		const keyProblems = keyCheck(value, key);
+		if (keyProblems.length > 0) {
+			problems.push(...keyProblems);
+		} else {
+			config[key] = value;
+		}
+	}
+	return {config: config as CatdocConfigFile, problems};
+}
+
+/**
+ * Validates a parsed configuration file against `CONFIG_SCHEMA`. Invalid settings are
+ * left out of the result, so the rest of the file still applies.
+ *
+ * @param raw The parsed JSON
+ * @returns The valid settings and a message per problem
+ */
+export function validateConfig(raw: unknown): {
+	config: CatdocConfigFile;
+	problems: string[];
+} {
+	return validate(CONFIG_SCHEMA, raw);
+}
+
+/**
+ * Validates a parsed secrets file, which may only hold API keys
+ */
+export function validateSecrets(raw: unknown): {
+	config: CatdocConfigFile;
+	problems: string[];
+} {
+	return validate(
+		{
+			google_api_key: CONFIG_SCHEMA.google_api_key,
+			openai_api_key: CONFIG_SCHEMA.openai_api_key,
+		},
+		raw,
+	);
+}
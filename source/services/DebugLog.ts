@@ -0,0 +1,40 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {getDebugMode} from './ConfigManagement.js';
+
+const LOGS_DIR = path.join(process.cwd(), 'logs');
+const LOG_FILE = path.join(LOGS_DIR, 'catdoc-debug.log');
+
+let enabled: boolean | undefined;
+
+/**
+ * Creates a logger that appends to logs/catdoc-debug.log while debug mode is on.
+ * The setting is read on the first message rather than on import, so it comes from
+ * the project the CLI selected, and the logs directory is created only when written to.
+ *
+ * @param tag Prefixed to every message of the logger, such as the module name
+ * @returns The logging function
+ */
+export function createDebugLog(tag?: string): (message: string) => void {
+	const prefix = tag ? `[${tag}] ` : '';
+	return message => {
+		if (enabled === undefined) {
+			enabled = getDebugMode();
+			if (enabled) {
+				write(`=== New Session Started at ${new Date().toISOString()} ===`);
+			}
+		}
+		if (enabled) {
+			write(`[${new Date().toISOString()}] ${prefix}${message}`);
+		}
+	};
+}
+
+function write(line: string) {
+	try {
+		fs.mkdirSync(LOGS_DIR, {recursive: true});
+		fs.appendFileSync(LOG_FILE, `${line}\n`);
+	} catch (error) {
+		// Silently fail: console output would break the TUI and the stdio servers
+	}
+}
@@ -0,0 +1,50 @@
+import path from 'node:path';
+
+export interface DirectoryEntry {
+	files: string[]; // Relative paths of the files directly inside, sorted
+	directories: string[]; // Relative paths of the direct subdirectories, sorted
+}
+
+/**
+ * Groups relative file paths by directory, including every ancestor up to the
+ * project root '.', so each directory lists its direct children.
+ *
+ * @param filePaths Relative paths using forward slashes
+ * @returns Directory entries keyed by relative path, '.' for the root
+ */
+export function indexDirectories(
+	filePaths: string[],
+): Map<string, DirectoryEntry> {
+	const index = new Map<string, DirectoryEntry>();
+	const entryFor = (directory: string) => {
+		let entry = index.get(directory);
+		if (!entry) {
+			entry = {files: [], directories: []};
+			index.set(directory, entry);
+		}
+		return entry;
+	};
+	for (const filePath of filePaths) {
+		let directory = path.posix.dirname(filePath);
+		entryFor(directory).files.push(filePath);
+		while (directory !== '.') {
+			const parent = path.posix.dirname(directory);
+			const siblings = entryFor(parent).directories;
+			if (siblings.includes(directory)) break;
+			siblings.push(directory);
+			directory = parent;
+		}
+	}
+	for (const entry of index.values()) {
+		entry.files.sort();
+		entry.directories.sort();
+	}
+	return index;
+}
+
+/**
+ * Number of path segments below the root ('.' is 0, 'src/services' is 2)
+ */
+export function directoryDepth(directory: string): number {
+	return directory === '.' ? 0 : directory.split('/').length;
+}
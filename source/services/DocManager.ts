@@ -1,50 +1,232 @@
 // catdoc/source/services/DocManager.ts
+import {EventEmitter} from 'node:events';
 import fs from 'node:fs';
 import path from 'node:path';
 import {simpleGit, SimpleGit} from 'simple-git';
-import {GoogleGenAI} from '@google/genai';
-import {FileDocumentation, ProjectDocumentation} from '../types/docs.js';
-import {apiKey, getDebugMode} from './ConfigManagement.js'; // Corrected import path
+import {
+	DeadLetter,
+	DirectoryDocumentation,
+	DocumentationUpdate,
+	FileDocumentation,
+	FileNode,
+	ProjectDocumentation,
+	StructuredDocumentation,
+	SymbolDocumentation,
+} from '../types/docs.js';
+import {LLMProvider, SummarizeRequest} from '../types/llm.js';
+import {
+	getConcurrency,
+	getIgnorePatterns,
+	getOutputDir,
+	getProviderConfig,
+	getRateLimitConfig,
+	getSummaryCacheDir,
+	onConfigChange,
+} from './ConfigManagement.js'; // Corrected import path
+import {createDebugLog} from './DebugLog.js';
+import {createProvider, getProviderModels} from './LLMProvider.js';
+import {SummaryCache} from './SummaryCache.js';
+import {
+	RateGovernor,
+	estimateTokens,
+	isRetryableError,
+} from './RateGovernor.js';
+import {generateHash, getFileStructure} from './treesitter.js';
+import {chunkSource, CodeChunk} from './Chunker.js';
+import {directoryDepth, indexDirectories} from './DirectoryIndex.js';
+import {generateSite} from './SiteGenerator.js';
+import {exportMarkdown} from './MarkdownExporter.js';
+import {SearchResult, searchDocumentation} from './DocSearch.js';
+import {
+	STRUCTURED_DOC_SCHEMA,
+	SYMBOL_DOC_SCHEMA,
+	SymbolSource,
+	collectSymbolSources,
+	parseStructuredDocumentation,
+	parseSymbolDocumentation,
+	qualifySymbols,
+	renderStructuredSummary,
+} from './StructuredDocs.js';
 import chokidar from 'chokidar';
+import ignore from 'ignore';
 import pkg from 'glob'; // Added for glob processing
 const {glob} = pkg;
 import {promisify} from 'node:util'; // Added for promisify
 
 const globPromise = promisify(glob); // Added promisified glob
 
-// Debug logging setup
-const DEBUG = getDebugMode();
-const LOGS_DIR = path.join(process.cwd(), 'logs');
-const LOG_FILE = path.join(LOGS_DIR, 'catdoc-debug.log');
+const debugLog = createDebugLog();
 
-// Initialize logging
-try {
-	if (!fs.existsSync(LOGS_DIR)) {
-		fs.mkdirSync(LOGS_DIR, {recursive: true});
-	}
-} catch (error) {
-	console.error('Failed to initialize logging:', error);
+// Bump whenever the summary prompt changes so cached summaries are not reused
+const SUMMARY_PROMPT_VERSION = 3;
+
+// Files longer than this are summarized chunk by chunk and the partial summaries merged
+const MAX_PROMPT_CHARS = 15000;
+
+function buildStructuredInstructions(symbolNames: string[]): string {
+	return `Respond with only a JSON object matching this JSON schema:\n${JSON.stringify(
+		STRUCTURED_DOC_SCHEMA,
+	)}\n\nField guidance:\n- purpose: the main purpose of the file in one or two sentences\n- symbols: a one-line description for each of these symbols, using these exact names: ${
+		symbolNames.join(', ') || '(none)'
+	}\n- exports: names other modules can import from this file\n- sideEffects: file system, network, global state or process effects\n- dependencies: imported modules and external services\n- caveats: limitations, TODOs or surprising behavior\nUse empty arrays where nothing applies.`;
 }
 
-const debugLog = (message: string) => {
-	if (DEBUG) {
-		const timestamp = new Date().toISOString();
-		const logMessage = `[${timestamp}] ${message}\n`;
-		try {
-			fs.appendFileSync(LOG_FILE, logMessage);
-		} catch (error) {
-			// Silently fail
+function buildSummaryPrompt(
+	fileType: string,
+	content: string,
+	symbolNames: string[],
+): string {
+	return `Please document this ${fileType} code file. ${buildStructuredInstructions(
+		symbolNames,
+	)}\n\nCode:\n${content.slice(0, MAX_PROMPT_CHARS)}`; // Limit context size for AI
+}
+
+function buildChunkSummaryPrompt(
+	fileType: string,
+	chunk: CodeChunk,
+	index: number,
+	total: number,
+): string {
+	return `This is part ${index + 1} of ${total} (lines ${chunk.startLine}-${
+		chunk.endLine
+	}) of a ${fileType} code file. Summarize only this part. Focus on:\n1. What the code in this part is for\n2. Each method/function with a one-line description\n3. Key data structures or types\nKeep it under 150 words and use bullet points.\n\nCode:\n${
+		chunk.text
+	}`;
+}
+
+function buildMergeSummaryPrompt(
+	fileType: string,
+	partials: Array<{chunk: CodeChunk; summary: string}>,
+	symbolNames: string[],
+): string {
+	const parts = partials
+		.map(
+			({chunk, summary}, index) =>
+				`### Part ${index + 1} (lines ${chunk.startLine}-${
+					chunk.endLine
+				})\n${summary}`,
+		)
+		.join('\n\n');
+	return `Below are summaries of the consecutive parts of one ${fileType} code file. Combine them into documentation of the whole file that does not mention the parts. ${buildStructuredInstructions(
+		symbolNames,
+	)}\n\n${parts}`;
+}
+
+// Longest symbol source sent to the model; longer bodies are cut off
+const MAX_SYMBOL_SOURCE_CHARS = 4000;
+
+function formatSymbolSources(sources: SymbolSource[]): string {
+	return sources
+		.map(
+			({name, item, source}) =>
+				`### ${name} (${item.type}, lines ${item.startLine}-${
+					item.endLine
+				})\n\`\`\`\n${source.slice(0, MAX_SYMBOL_SOURCE_CHARS)}\n\`\`\``,
+		)
+		.join('\n\n');
+}
+
+/**
+ * Packs symbols into groups whose formatted sources fit in one prompt
+ */
+function batchSymbolSources(sources: SymbolSource[]): SymbolSource[][] {
+	const batches: SymbolSource[][] = [];
+	let current: SymbolSource[] = [];
+	for (const source of sources) {
+		if (
+			current.length > 0 &&
+			formatSymbolSources([...current, source]).length > MAX_PROMPT_CHARS
+		) {
+			batches.push(current);
+			current = [];
 		}
+		current.push(source);
+	}
+	if (current.length > 0) batches.push(current);
+	return batches;
+}
+
+function buildSymbolDocsPrompt(
+	fileType: string,
+	relativePath: string,
+	sources: SymbolSource[],
+): string {
+	return `Document each of the following symbols from the ${fileType} file \`${relativePath}\`. Nested methods are shown separately, so describe a class as a whole. Respond with only a JSON object matching this JSON schema:\n${JSON.stringify(
+		SYMBOL_DOC_SCHEMA,
+	)}\n\nUse the exact symbol names given. Give the signature as written in the code, a one or two sentence description, every parameter, the return value (null when nothing is returned) and the errors it can throw.\n\n${formatSymbolSources(
+		sources,
+	)}`;
+}
+
+// Bump whenever a rollup prompt changes so directory summaries are regenerated
+const ROLLUP_PROMPT_VERSION = 1;
+
+interface RollupChild {
+	path: string;
+	kind: 'file' | 'directory';
+	summary: string;
+}
+
+function formatRollupChildren(children: RollupChild[]): string {
+	return children
+		.map(child => `### ${child.path} (${child.kind})\n${child.summary}`)
+		.join('\n\n');
+}
+
+function buildDirectoryRollupPrompt(
+	directory: string,
+	children: RollupChild[],
+): string {
+	return `Below are summaries of the files and subdirectories in the \`${directory}\` directory of a codebase. Write a short overview of what this directory is for, aimed at a developer new to the project: its responsibility, how its main parts relate to each other, and where to start reading. Keep it under 150 words and use bullet points.\n\n${formatRollupChildren(
+		children,
+	).slice(0, MAX_PROMPT_CHARS)}`;
+}
+
+function buildProjectRollupPrompt(children: RollupChild[]): string {
+	return `Below are summaries of the top-level files and directories of a codebase. Write an architecture overview aimed at a developer new to the project: what the project does, its main components and their responsibilities, how they interact, and where to start reading. Keep it under 300 words and use bullet points.\n\n${formatRollupChildren(
+		children,
+	).slice(0, MAX_PROMPT_CHARS)}`;
+}
+
+/**
+ * Thrown when a file is deliberately not documented (deleted or empty).
+ * These are not failures and never end up in the dead-letter list.
+ */
+export class DocumentationSkippedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'DocumentationSkippedError';
 	}
-};
+}
 
-debugLog('DocManager logging initialized');
+export interface QueueStatus {
+	processing: boolean;
+	active: string[]; // Files being documented right now
+	queued: string[]; // Files waiting, in order
+	failed: number; // Size of the dead-letter list
+	documented: number;
+	lastUpdated: string;
+}
 
-export class DocManager {
-	private docsPath: string;
+export interface DocManagerEvents {
+	// Emitted once the queue drains (or a deletion is handled), after rollups and saving
+	updated: [DocumentationUpdate];
+}
+
+export class DocManager extends EventEmitter<DocManagerEvents> {
+	public readonly docsPath: string; // The configured output directory
+	private outputDirectory: string; // docsPath relative to the workspace
+	private excludedPaths = ignore(); // The configured `ignore` globs
 	private htmlPath: string;
 	private git: SimpleGit;
-	private genAI: GoogleGenAI;
+	private providerInstance: LLMProvider | null = null;
+	// A saved or edited configuration may change the provider or its key
+	private readonly stopConfigWatch = onConfigChange(() => {
+		this.providerInstance = null;
+	});
+	private summaryCache: SummaryCache | null;
+	private governor: RateGovernor;
+	private deadLetters: Record<string, DeadLetter> = {}; // Keyed by relative path
 	private projectDocs: ProjectDocumentation;
 	public workspacePath: string;
 	private readonly IGNORED_PATTERNS = [
@@ -66,45 +248,32 @@ export class DocManager {
 	// --- Queue Implementation ---
 	private processingQueue: string[] = []; // Holds relative paths
 	private isProcessingQueue: boolean = false;
-	private readonly MAX_CONCURRENT_GENERATIONS = 3; // Limit concurrent AI calls
+	private activeBatch: string[] = []; // Files being documented right now
+	private readonly MAX_CONCURRENT_GENERATIONS = getConcurrency(); // Limit concurrent AI calls
+	private queueIdleResolvers: Array<() => void> = [];
+	private rollupRun: Promise<void> = Promise.resolve();
 	// --------------------------
+	private pendingUpdate: DocumentationUpdate = {changed: [], removed: []};
 
 	constructor(workspacePath: string) {
+		super();
 		debugLog(`Initializing DocManager with workspace path: ${workspacePath}`);
 		this.workspacePath = workspacePath;
 
-		this.docsPath = path.join(this.workspacePath, 'docs');
+		this.docsPath = path.resolve(this.workspacePath, getOutputDir());
+		this.outputDirectory = this.normalizePath(this.docsPath);
+		this.excludedPaths.add(getIgnorePatterns());
 		this.htmlPath = path.join(this.docsPath, 'html');
-		// Ensure the 'files' directory exists within 'docs'
-		const filesDirPath = path.join(this.docsPath, 'files');
 
 		this.git = simpleGit(this.workspacePath);
 
-		// Initialize Google Gemini
-		if (!apiKey) {
-			throw new Error('GOOGLE_API_KEY is not set in environment variables');
-		}
-		this.genAI = new GoogleGenAI({apiKey: apiKey});
-
-		// --- Ensure Directories Exist ---
-		try {
-			if (!fs.existsSync(this.docsPath)) {
-				debugLog(`Creating docs directory: ${this.docsPath}`);
-				fs.mkdirSync(this.docsPath, {recursive: true});
-			}
-			if (!fs.existsSync(this.htmlPath)) {
-				debugLog(`Creating html directory: ${this.htmlPath}`);
-				fs.mkdirSync(this.htmlPath, {recursive: true});
-			}
-			if (!fs.existsSync(filesDirPath)) {
-				debugLog(`Creating files directory: ${filesDirPath}`);
-				fs.mkdirSync(filesDirPath, {recursive: true});
-			}
-		} catch (error) {
-			debugLog(`Error creating documentation directories: ${error}`);
-			// Decide if this is a critical error
-		}
-		// --- End Directory Check ---
+		const summaryCacheDir = getSummaryCacheDir();
+		this.summaryCache = summaryCacheDir
+			? new SummaryCache(summaryCacheDir)
+			: null;
+		this.governor = new RateGovernor(getRateLimitConfig());
+		// The docs directories are created when first written to, so that read-only
+		// commands such as `catdoc check` leave the tree untouched
 
 		this.directoryWatcher = chokidar.watch([], {
 			// Start watching nothing initially
@@ -140,6 +309,13 @@ export class DocManager {
 
 				if (eventType === 'unlink') {
 					this.removeDocumentation(normalizedRelativePath); // Remove immediately
+					if (!this.isProcessingQueue) {
+						// No queue run will announce the removal, so do it here
+						await this.updateDirectoryRollups().catch(error =>
+							debugLog(`Error updating directory rollups: ${error}`),
+						);
+						this.emitUpdate();
+					}
 				} else {
 					// Check if file still exists for add/change before queueing
 					if (fs.existsSync(filePath)) {
@@ -167,6 +343,33 @@ export class DocManager {
 		debugLog('DocManager constructor finished');
 	}
 
+	/**
+	 * The configured LLM provider, created on first use so that browsing existing
+	 * documentation works without credentials. It is created again after the
+	 * configuration changes, so a new key applies without a restart.
+	 * @throws If the provider is missing required credentials
+	 */
+	private get provider(): LLMProvider {
+		if (!this.providerInstance) {
+			this.providerInstance = createProvider();
+		}
+		return this.providerInstance;
+	}
+
+	/**
+	 * Runs a model call within the configured rate limits. The fake provider and
+	 * cassette replay never reach a model, so their calls run immediately.
+	 */
+	private async callModel<T>(
+		estimatedTokens: number,
+		call: () => Promise<T>,
+	): Promise<T> {
+		if (this.provider.offline) {
+			return call();
+		}
+		return this.governor.run(estimatedTokens, call);
+	}
+
 	/**
 	 * Adds a file path to the processing queue and starts processing if not already running.
 	 * @param relativePath Relative path of the file to process (must use forward slashes).
@@ -208,13 +411,14 @@ export class DocManager {
 				this.processingQueue.length,
 			);
 			const batch = this.processingQueue.splice(0, batchSize);
+			this.activeBatch = batch;
 
 			debugLog(
 				`Processing batch of ${batch.length} files: [${batch.join(', ')}]`,
 			);
 
 			const promises = batch.map(relativePath =>
-				this.generateDocumentation(relativePath) // generateDocumentation handles file saving
+				this.documentFile(relativePath) // generateDocumentation handles file saving
 					.catch(error => {
 						debugLog(`Error processing ${relativePath} from queue: ${error}`);
 						return null; // Indicate failure
@@ -222,6 +426,7 @@ export class DocManager {
 			);
 
 			await Promise.all(promises);
+			this.activeBatch = [];
 			// No need to call saveDocs here, generateDocumentation uses debounceSave
 
 			// debugLog(`Batch finished. Remaining queue size: ${this.processingQueue.length}`);
@@ -231,10 +436,238 @@ export class DocManager {
 			}
 		}
 
+		// Directory summaries depend on the files just documented
+		await this.updateDirectoryRollups().catch(error =>
+			debugLog(`Error updating directory rollups: ${error}`),
+		);
+
 		this.isProcessingQueue = false;
 		debugLog('Queue processing finished.');
 		// Final explicit save might be useful after the queue is fully processed
 		this.saveDocs();
+
+		if (this.processingQueue.length > 0) {
+			// Files were queued while the rollups ran
+			this.processDocumentationQueue();
+			return;
+		}
+		this.emitUpdate();
+
+		const resolvers = this.queueIdleResolvers;
+		this.queueIdleResolvers = [];
+		resolvers.forEach(resolve => resolve());
+	}
+
+	/**
+	 * Emits the `updated` event for the paths documented or removed since the last one
+	 */
+	private emitUpdate() {
+		const update = this.pendingUpdate;
+		if (update.changed.length === 0 && update.removed.length === 0) return;
+		this.pendingUpdate = {changed: [], removed: []};
+		debugLog(
+			`Documentation updated: ${update.changed.length} changed, ${update.removed.length} removed`,
+		);
+		this.emit('updated', update);
+	}
+
+	/**
+	 * Resolves once the documentation queue has been fully processed.
+	 */
+	whenQueueIdle(): Promise<void> {
+		if (!this.isProcessingQueue && this.processingQueue.length === 0) {
+			return Promise.resolve();
+		}
+		return new Promise(resolve => this.queueIdleResolvers.push(resolve));
+	}
+
+	/**
+	 * Regenerates the summaries of directories whose children's summaries changed since
+	 * their last rollup, bottom-up to the project architecture overview at '.'.
+	 * Concurrent calls are serialized so rollups never race each other.
+	 * @throws If any directory couldn't be summarized; the others are still updated
+	 */
+	updateDirectoryRollups(): Promise<void> {
+		const run = this.rollupRun.then(() => this.runDirectoryRollups());
+		// The next run waits for this one whether or not it fails
+		this.rollupRun = run.catch(() => undefined);
+		return run;
+	}
+
+	/**
+	 * Retrieves the rollup summary of a directory ('.' for the project overview).
+	 */
+	getDirectoryDocumentation(
+		directoryPath: string,
+	): DirectoryDocumentation | undefined {
+		const relativePath = this.normalizePath(directoryPath) || '.';
+		return this.projectDocs.directories?.[relativePath];
+	}
+
+	private async runDirectoryRollups(): Promise<void> {
+		const tree = indexDirectories(Object.keys(this.projectDocs.files));
+
+		const directories = this.projectDocs.directories ?? {};
+		for (const directory of Object.keys(directories)) {
+			if (!tree.has(directory)) delete directories[directory];
+		}
+		this.projectDocs.directories = directories;
+
+		// Deepest first, so every directory is rolled up after its subdirectories
+		const ordered = [...tree.keys()].sort(
+			(a, b) => directoryDepth(b) - directoryDepth(a),
+		);
+		let changed = false;
+		const failures: string[] = [];
+		for (const directory of ordered) {
+			const entry = tree.get(directory)!;
+			const children: RollupChild[] = [
+				...entry.directories.map(child => ({
+					path: child,
+					kind: 'directory' as const,
+					summary: directories[child]?.summary ?? '',
+				})),
+				...entry.files.map(child => {
+					const doc = this.projectDocs.files[child]!;
+					return {
+						path: child,
+						kind: 'file' as const,
+						summary: doc.structured?.purpose ?? doc.summary,
+					};
+				}),
+			];
+			const childrenHash = generateHash(
+				JSON.stringify([ROLLUP_PROMPT_VERSION, children]),
+			);
+			if (directories[directory]?.childrenHash === childrenHash) continue;
+
+			const prompt =
+				directory === '.'
+					? buildProjectRollupPrompt(children)
+					: buildDirectoryRollupPrompt(directory, children);
+			try {
+				const summary = await this.callModel(estimateTokens(prompt), () =>
+					this.provider.summarize({
+						filePath: directory,
+						fileType: 'directory',
+						content: formatRollupChildren(children),
+						prompt,
+						stage: directory === '.' ? 'project' : 'directory',
+					}),
+				);
+				directories[directory] = {
+					path: directory,
+					summary,
+					childrenHash,
+					children: children.map(child => child.path),
+					lastUpdated: new Date().toISOString(),
+				};
+				changed = true;
+			} catch (error) {
+				// Keep the previous rollup; the next run retries since the hash still differs
+				debugLog(`Error generating rollup for ${directory}: ${error}`);
+				failures.push(
+					`${directory}: ${error instanceof Error ? error.message : error}`,
+				);
+			}
+		}
+
+		if (changed) {
+			debugLog('Directory rollups updated');
+			this.debounceSave();
+		}
+		if (failures.length > 0) {
+			throw new Error(
+				`Could not summarize ${failures.length} of ${
+					ordered.length
+				} directories (${failures.join('; ')})`,
+			);
+		}
+	}
+
+	/**
+	 * A snapshot of the documentation queue.
+	 */
+	getQueueStatus(): QueueStatus {
+		return {
+			processing: this.isProcessingQueue,
+			active: [...this.activeBatch],
+			queued: [...this.processingQueue],
+			failed: Object.keys(this.loadDeadLetters()).length,
+			documented: Object.keys(this.projectDocs.files).length,
+			lastUpdated: this.projectDocs.lastUpdated,
+		};
+	}
+
+	/**
+	 * Files whose documentation permanently failed, most recent first.
+	 * Read from disk so every DocManager instance sees the same list.
+	 */
+	getDeadLetters(): DeadLetter[] {
+		this.deadLetters = this.loadDeadLetters();
+		return Object.values(this.deadLetters).sort((a, b) =>
+			b.failedAt.localeCompare(a.failedAt),
+		);
+	}
+
+	/**
+	 * Removes files from the dead-letter list and queues them again.
+	 * @param relativePaths Files to retry, all dead letters by default
+	 * @returns The number of files queued
+	 */
+	requeueDeadLetters(relativePaths?: string[]): number {
+		const paths = (
+			relativePaths ?? this.getDeadLetters().map(letter => letter.path)
+		).map(p => this.normalizePath(p));
+		for (const relativePath of paths) {
+			this.clearDeadLetter(relativePath);
+			this.addToQueue(relativePath);
+		}
+		return paths.length;
+	}
+
+	private recordDeadLetter(relativePath: string, error: unknown) {
+		this.deadLetters = this.loadDeadLetters();
+		this.deadLetters[relativePath] = {
+			path: relativePath,
+			error: error instanceof Error ? error.message : String(error),
+			retryable: isRetryableError(error),
+			failedAt: new Date().toISOString(),
+		};
+		this.saveDeadLetters();
+	}
+
+	private clearDeadLetter(relativePath: string) {
+		this.deadLetters = this.loadDeadLetters();
+		if (this.deadLetters[relativePath]) {
+			delete this.deadLetters[relativePath];
+			this.saveDeadLetters();
+		}
+	}
+
+	private loadDeadLetters(): Record<string, DeadLetter> {
+		const deadLettersFile = path.join(this.docsPath, 'dead-letters.json');
+		try {
+			if (fs.existsSync(deadLettersFile)) {
+				return JSON.parse(fs.readFileSync(deadLettersFile, 'utf-8'));
+			}
+		} catch (error) {
+			debugLog(`Error reading dead-letters.json: ${error}`);
+		}
+		return {};
+	}
+
+	private saveDeadLetters() {
+		const deadLettersFile = path.join(this.docsPath, 'dead-letters.json');
+		try {
+			fs.mkdirSync(this.docsPath, {recursive: true});
+			fs.writeFileSync(
+				deadLettersFile,
+				JSON.stringify(this.deadLetters, null, 2),
+			);
+		} catch (error) {
+			debugLog(`Error saving dead-letters.json: ${error}`);
+		}
 	}
 
 	/**
@@ -278,6 +711,7 @@ export class DocManager {
 	 */
 	async shutdown() {
 		debugLog('Shutting down DocManager...');
+		this.stopConfigWatch();
 		if (this.directoryWatcher) {
 			await this.directoryWatcher.close();
 			debugLog('Directory watcher closed');
@@ -360,6 +794,7 @@ export class DocManager {
 				version: this.projectDocs.version,
 				lastUpdated: this.projectDocs.lastUpdated,
 				files: {} as {[key: string]: FileDocumentation},
+				directories: this.projectDocs.directories,
 			};
 
 			// Copy all files but omit the content field
@@ -374,6 +809,11 @@ export class DocManager {
 						hash: file.hash,
 						preview: file.preview,
 						lastModified: file.lastModified,
+						contentHash: file.contentHash,
+						chunks: file.chunks,
+						structured: file.structured,
+						symbols: file.symbols,
+						failedSymbols: file.failedSymbols,
 					};
 				}
 			}
@@ -384,12 +824,27 @@ export class DocManager {
 				} files, content excluded)`,
 			);
 
+			fs.mkdirSync(this.docsPath, {recursive: true});
 			fs.writeFileSync(docsFile, JSON.stringify(docsCopy, null, 2));
 		} catch (error) {
 			debugLog(`Error saving docs.json: ${error}`);
 		}
 	}
 
+	/**
+	 * Files changed between a git ref and the working tree, plus untracked files.
+	 * @throws If the ref doesn't exist or the workspace isn't a git repository
+	 */
+	async getFilesChangedSince(ref: string): Promise<string[]> {
+		const diff = await this.git.diff(['--name-only', '--relative', ref, '--']);
+		const status = await this.git.status();
+		const files = [...diff.split('\n'), ...status.not_added]
+			.map(file => file.trim())
+			.filter(Boolean)
+			.map(file => this.normalizePath(file));
+		return [...new Set(files)];
+	}
+
 	async getChangedFiles(): Promise<string[]> {
 		try {
 			const status = await this.git.status();
@@ -402,6 +857,193 @@ export class DocManager {
 		}
 	}
 
+	/**
+	 * Documents file content with one model call, or for files over the prompt limit,
+	 * summarizes symbol-aligned chunks separately and merges the partial summaries.
+	 * Chunks are summarized one after another so a single large file doesn't take
+	 * over the rate budget.
+	 *
+	 * @returns The summary rendered from the structured documentation, and the number
+	 * of chunks when the file was chunked
+	 */
+	private async summarizeContent(
+		relativePath: string,
+		fileType: string,
+		content: string,
+	): Promise<{
+		summary: string;
+		structured: StructuredDocumentation;
+		chunks?: number;
+	}> {
+		const items = getFileStructure(relativePath, content)?.items ?? [];
+		const symbolNames = qualifySymbols(items).map(symbol => symbol.name);
+		const chunks = chunkSource(relativePath, content, MAX_PROMPT_CHARS);
+		if (chunks.length <= 1) {
+			const structured = await this.requestValidated(
+				{
+					filePath: relativePath,
+					fileType,
+					content,
+					prompt: buildSummaryPrompt(fileType, content, symbolNames),
+					format: 'json',
+				},
+				response => parseStructuredDocumentation(response, items),
+			);
+			return {summary: renderStructuredSummary(structured), structured};
+		}
+
+		debugLog(`Summarizing ${relativePath} in ${chunks.length} chunks`);
+		const partials: Array<{chunk: CodeChunk; summary: string}> = [];
+		for (const [index, chunk] of chunks.entries()) {
+			const prompt = buildChunkSummaryPrompt(
+				fileType,
+				chunk,
+				index,
+				chunks.length,
+			);
+			const summary = await this.callModel(estimateTokens(prompt), () =>
+				this.provider.summarize({
+					filePath: relativePath,
+					fileType,
+					content: chunk.text,
+					prompt,
+					stage: 'chunk',
+				}),
+			);
+			partials.push({chunk, summary});
+		}
+
+		const structured = await this.requestValidated(
+			{
+				filePath: relativePath,
+				fileType,
+				content: partials.map(partial => partial.summary).join('\n\n'),
+				prompt: buildMergeSummaryPrompt(fileType, partials, symbolNames),
+				stage: 'merge',
+				format: 'json',
+			},
+			response => parseStructuredDocumentation(response, items),
+		);
+		return {
+			summary: renderStructuredSummary(structured),
+			structured,
+			chunks: chunks.length,
+		};
+	}
+
+	/**
+	 * Asks for a JSON response and validates it. An invalid response is sent back once
+	 * with the validation errors before giving up.
+	 *
+	 * @param request The request, whose prompt asks for JSON
+	 * @param parse Validates a response, throwing an Error that describes the problems
+	 * @throws Error when the corrected response still fails validation
+	 */
+	private async requestValidated<T>(
+		request: SummarizeRequest,
+		parse: (response: string) => T,
+	): Promise<T> {
+		const response = await this.callModel(estimateTokens(request.prompt), () =>
+			this.provider.summarize(request),
+		);
+		try {
+			return parse(response);
+		} catch (error) {
+			debugLog(
+				`Invalid ${request.stage ?? 'file'} response for ${
+					request.filePath
+				}, asking again: ${error}`,
+			);
+			const prompt = `${
+				request.prompt
+			}\n\nYour previous response was rejected: ${
+				error instanceof Error ? error.message : error
+			}\nRespond again with only the corrected JSON object.`;
+			const retried = await this.callModel(estimateTokens(prompt), () =>
+				this.provider.summarize({...request, prompt}),
+			);
+			return parse(retried);
+		}
+	}
+
+	/**
+	 * Documents the file's classes, methods and functions, reusing the previous entry of
+	 * every symbol whose source hash is unchanged. Changed symbols are documented in as
+	 * few calls as fit the prompt limit, usually one per file. Symbols that fail, or that
+	 * the model leaves out, are reported so the file is documented again even though
+	 * its content is unchanged.
+	 *
+	 * @param previous The file's symbol documentation from the last generation
+	 * @returns Symbol documentation keyed by qualified name, in file order, and the
+	 * names of the symbols that could not be documented
+	 */
+	private async documentSymbols(
+		relativePath: string,
+		fileType: string,
+		content: string,
+		previous: Record<string, SymbolDocumentation> = {},
+	): Promise<{
+		symbols: Record<string, SymbolDocumentation>;
+		failed: string[];
+	}> {
+		const items = getFileStructure(relativePath, content)?.items ?? [];
+		const sources = collectSymbolSources(items, content);
+		const documented: SymbolDocumentation[] = [];
+		const changed: SymbolSource[] = [];
+		for (const source of sources) {
+			const existing = previous[source.name];
+			if (existing?.hash === source.hash) {
+				// Same source, possibly moved: refresh the position only
+				documented.push({
+					...existing,
+					startLine: source.item.startLine,
+					endLine: source.item.endLine,
+				});
+			} else {
+				changed.push(source);
+			}
+		}
+
+		for (const batch of batchSymbolSources(changed)) {
+			try {
+				documented.push(
+					...(await this.requestValidated(
+						{
+							filePath: relativePath,
+							fileType,
+							content: formatSymbolSources(batch),
+							prompt: buildSymbolDocsPrompt(fileType, relativePath, batch),
+							stage: 'symbols',
+							format: 'json',
+						},
+						response => parseSymbolDocumentation(response, batch),
+					)),
+				);
+			} catch (error) {
+				debugLog(`Error documenting symbols of ${relativePath}: ${error}`);
+			}
+		}
+
+		if (changed.length > 0) {
+			debugLog(
+				`Documented ${
+					changed.length
+				} changed symbols of ${relativePath}, reused ${
+					sources.length - changed.length
+				}`,
+			);
+		}
+		const symbols = Object.fromEntries(
+			documented
+				.sort((a, b) => a.startLine - b.startLine)
+				.map(symbol => [symbol.name, symbol]),
+		);
+		return {
+			symbols,
+			failed: changed.map(source => source.name).filter(name => !symbols[name]),
+		};
+	}
+
 	/**
 	 * Gets a short preview of a file's content.
 	 */
@@ -440,7 +1082,7 @@ export class DocManager {
 		if (
 			normalizedPath.startsWith('node_modules/') ||
 			normalizedPath.startsWith('.git/') ||
-			normalizedPath.startsWith('docs/')
+			this.isExcluded(normalizedPath)
 		) {
 			return true;
 		}
@@ -449,72 +1091,127 @@ export class DocManager {
 	}
 
 	/**
-	 * Scans the workspace, compares with existing docs, and queues outdated/missing files.
+	 * Whether the project configuration leaves a path out of the documentation: it is
+	 * in the output directory or matches an `ignore` glob. Directories end with a slash.
 	 */
-	async generateAllDocsForWorkspace(
-		forceRegenerate = false,
-	): Promise<{total: number; queued: number; skipped: number}> {
-		debugLog(
-			`Starting workspace documentation scan (forceRegenerate: ${forceRegenerate})`,
-		);
-		const scanPattern = '**/*';
-		let files: string[] = []; // Initialize as empty array
+	isExcluded(relativePath: string): boolean {
+		const normalizedPath = this.normalizePath(relativePath);
+		if (!normalizedPath || normalizedPath.startsWith('../')) {
+			return false; // Outside the workspace, which the globs can't match
+		}
+		if (
+			normalizedPath === this.outputDirectory ||
+			normalizedPath.startsWith(`${this.outputDirectory}/`)
+		) {
+			return true;
+		}
+		return this.excludedPaths.ignores(normalizedPath);
+	}
 
+	/**
+	 * Whether catdoc would document a file on its own: it is in the workspace, not hidden,
+	 * and not skipped by catdoc's patterns, the configuration or the workspace's
+	 * .gitignore. Requests to document other files are refused, so files such as .env
+	 * never reach a model.
+	 */
+	isDocumentable(relativePath: string): boolean {
+		const normalizedPath = this.normalizePath(relativePath);
+		if (
+			!normalizedPath ||
+			path.isAbsolute(normalizedPath) ||
+			normalizedPath.split('/').some(segment => segment.startsWith('.'))
+		) {
+			return false; // Also rejects paths leaving the workspace through '..'
+		}
+		if (this.shouldIgnoreFile(normalizedPath)) return false;
+		const gitignorePath = path.join(this.workspacePath, '.gitignore');
+		try {
+			return !ignore()
+				.add(fs.readFileSync(gitignorePath, 'utf8'))
+				.ignores(normalizedPath);
+		} catch (error) {
+			return true; // No readable .gitignore
+		}
+	}
+
+	/**
+	 * Lists the workspace files catdoc documents, as normalized relative paths.
+	 */
+	async listWorkspaceFiles(): Promise<string[]> {
+		let files: string[];
 		try {
 			// Use glob to find all files, respecting ignores common ignores
-			const matches = await globPromise(scanPattern, {
+			files = await globPromise('**/*', {
 				cwd: this.workspacePath,
-				absolute: true,
 				nodir: true, // Only files
-				ignore: ['node_modules/**', '.git/**', 'docs/**', 'dist/**'],
+				ignore: [
+					'node_modules/**',
+					'.git/**',
+					`${this.outputDirectory}/**`,
+					'dist/**',
+				],
 				dot: false,
 			});
-			files = matches;
 		} catch (error) {
 			debugLog(`Error during glob scan: ${error}`);
-			return {total: 0, queued: 0, skipped: 0};
+			return [];
 		}
-
 		// Further filter based on IGNORED_PATTERNS regex
-		const validFiles = files.filter(
-			file => !this.shouldIgnoreFile(path.relative(this.workspacePath, file)),
-		);
+		return files
+			.map(file => this.normalizePath(file))
+			.filter(file => !this.shouldIgnoreFile(file));
+	}
+
+	/**
+	 * Whether a file is undocumented, its content changed since it was documented, or
+	 * some of its symbols failed to be documented.
+	 * A newer mtime alone (checkout, touch) doesn't count as a change.
+	 */
+	needsDocumentation(relativePath: string): boolean {
+		const normalizedPath = this.normalizePath(relativePath);
+		const existingDoc = this.projectDocs.files[normalizedPath];
+		if (!existingDoc || existingDoc.failedSymbols?.length) return true;
+		const absoluteFilePath = path.join(this.workspacePath, normalizedPath);
+		try {
+			const fileModified = fs.statSync(absoluteFilePath).mtimeMs; // Use ms for more precision
+			if (
+				existingDoc.lastModified &&
+				fileModified <= existingDoc.lastModified
+			) {
+				return false;
+			}
+			const contentHash = generateHash(
+				fs.readFileSync(absoluteFilePath, 'utf-8'),
+			);
+			if (existingDoc.contentHash !== contentHash) return true;
+			existingDoc.lastModified = fileModified;
+			return false;
+		} catch (statError) {
+			debugLog(
+				`Error getting stats for ${normalizedPath}: ${statError}. Treating as changed.`,
+			);
+			return true;
+		}
+	}
 
+	/**
+	 * Scans the workspace, compares with existing docs, and queues outdated/missing files.
+	 */
+	async generateAllDocsForWorkspace(
+		forceRegenerate = false,
+	): Promise<{total: number; queued: number; skipped: number}> {
+		debugLog(
+			`Starting workspace documentation scan (forceRegenerate: ${forceRegenerate})`,
+		);
+		const validFiles = await this.listWorkspaceFiles();
 		debugLog(
 			`Found ${validFiles.length} potentially relevant files after filtering`,
 		);
 
 		let queued = 0;
 		let skipped = 0;
-
-		for (const absoluteFilePath of validFiles) {
-			const relativePath = this.normalizePath(
-				path.relative(this.workspacePath, absoluteFilePath),
-			);
-			let shouldQueue = forceRegenerate;
-
-			if (!shouldQueue) {
-				const existingDoc = this.projectDocs.files[relativePath];
-				if (!existingDoc) {
-					shouldQueue = true;
-				} else {
-					try {
-						const stats = fs.statSync(absoluteFilePath);
-						const fileModified = stats.mtimeMs; // Use ms for more precision
-						const docUpdated = existingDoc.lastModified; // Compare against file mtime stored in doc
-						if (!docUpdated || fileModified > docUpdated) {
-							shouldQueue = true;
-						}
-					} catch (statError) {
-						debugLog(
-							`Error getting stats for ${relativePath}: ${statError}. Queuing.`,
-						);
-						shouldQueue = true;
-					}
-				}
-			}
-
-			if (shouldQueue) {
+		for (const relativePath of validFiles) {
+			if (forceRegenerate || this.needsDocumentation(relativePath)) {
 				this.addToQueue(relativePath);
 				queued++;
 			} else {
@@ -529,6 +1226,25 @@ export class DocManager {
 		return {total: validFiles.length, queued, skipped};
 	}
 
+	/**
+	 * Generates documentation for a file and keeps the dead-letter list in sync:
+	 * failures are recorded there, successes clear earlier failures.
+	 *
+	 * @returns The documentation, or null when the file was skipped (deleted or empty)
+	 * @throws The generation error, after recording the dead letter
+	 */
+	async documentFile(relativePath: string): Promise<FileDocumentation | null> {
+		try {
+			const doc = await this.generateDocumentation(relativePath);
+			this.clearDeadLetter(relativePath);
+			return doc;
+		} catch (error) {
+			if (error instanceof DocumentationSkippedError) return null;
+			this.recordDeadLetter(relativePath, error);
+			throw error;
+		}
+	}
+
 	/**
 	 * Generates documentation for a single file (usually called by the queue processor).
 	 */
@@ -544,7 +1260,9 @@ export class DocManager {
 			if (!fs.existsSync(absolutePath)) {
 				debugLog(`File deleted before generation: ${absolutePath}. Removing.`);
 				this.removeDocumentation(normalizedRelativePath);
-				throw new Error(`File not found during generation: ${absolutePath}`);
+				throw new DocumentationSkippedError(
+					`File not found during generation: ${absolutePath}`,
+				);
 			}
 
 			const content = fs.readFileSync(absolutePath, 'utf-8');
@@ -553,24 +1271,51 @@ export class DocManager {
 				debugLog(`Skipping empty file: ${normalizedRelativePath}`);
 				// Create a minimal doc entry or remove existing one? Let's remove.
 				this.removeDocumentation(normalizedRelativePath);
-				throw new Error(`Skipped empty file: ${normalizedRelativePath}`);
+				throw new DocumentationSkippedError(
+					`Skipped empty file: ${normalizedRelativePath}`,
+				);
 			}
 
 			const fileType = path.extname(absolutePath).slice(1);
 
-			const prompt = `Please provide a concise technical summary of this ${fileType} code file. Focus only on:\n1. The main purpose of the file\n2. Each method/function with a one-line description\n3. Key data structures or types\nKeep the summary under 200 words and use bullet points for clarity.\n\nCode:\n${content.slice(
-				0,
-				15000,
-			)}`; // Limit context size for AI
+			const contentHash = generateHash(content);
+			const cacheKey = SummaryCache.key(
+				contentHash,
+				SUMMARY_PROMPT_VERSION,
+				`${getProviderConfig().provider}:${getProviderModels().summary}`,
+			);
 
-			// debugLog('Generating AI summary...'); // Reduce log noise
-			const response = await this.genAI.models.generateContent({
-				model: 'gemini-2.0-flash',
-				contents: prompt,
-			});
+			const cached = this.summaryCache?.get(cacheKey);
+			let summary = cached?.summary;
+			let chunks = cached?.chunks;
+			let structured = cached?.structured;
+			if (summary) {
+				debugLog(`Using cached summary for ${normalizedRelativePath}`);
+			} else {
+				({summary, structured, chunks} = await this.summarizeContent(
+					normalizedRelativePath,
+					fileType,
+					content,
+				));
+				if (summary) {
+					this.summaryCache?.set(cacheKey, {
+						summary,
+						contentHash,
+						promptVersion: SUMMARY_PROMPT_VERSION,
+						model: this.provider.models.summary,
+						createdAt: new Date().toISOString(),
+						chunks,
+						structured,
+					});
+				}
+			}
 
-			const summary = response.text;
-			// debugLog('AI summary generated successfully'); // Reduce log noise
+			const {symbols, failed: failedSymbols} = await this.documentSymbols(
+				normalizedRelativePath,
+				fileType,
+				content,
+				this.projectDocs.files[normalizedRelativePath]?.symbols,
+			);
 
 			const stats = fs.statSync(absolutePath);
 			let hash = undefined;
@@ -588,9 +1333,15 @@ export class DocManager {
 				hash: hash,
 				preview: this.getFilePreview(absolutePath),
 				lastModified: stats.mtimeMs, // Store file modification time
+				contentHash,
+				chunks,
+				structured,
+				symbols,
+				...(failedSymbols.length > 0 && {failedSymbols}),
 			};
 
 			this.projectDocs.files[normalizedRelativePath] = doc;
+			this.trackUpdate(normalizedRelativePath, 'changed');
 
 			// Save individual file documentation
 			const safeBaseName = normalizedRelativePath.replace(/[\/\\]/g, '_'); // Ensure safe name
@@ -620,6 +1371,16 @@ export class DocManager {
 		}
 	}
 
+	private trackUpdate(relativePath: string, kind: keyof DocumentationUpdate) {
+		const other = kind === 'changed' ? 'removed' : 'changed';
+		this.pendingUpdate[other] = this.pendingUpdate[other].filter(
+			pending => pending !== relativePath,
+		);
+		if (!this.pendingUpdate[kind].includes(relativePath)) {
+			this.pendingUpdate[kind].push(relativePath);
+		}
+	}
+
 	/**
 	 * Removes documentation for a given file path.
 	 */
@@ -630,6 +1391,7 @@ export class DocManager {
 				`Removing documentation entry for deleted file: ${normalizedRelativePath}`,
 			);
 			delete this.projectDocs.files[normalizedRelativePath];
+			this.trackUpdate(normalizedRelativePath, 'removed');
 
 			// Remove individual file
 			const safeBaseName = normalizedRelativePath.replace(/[\/\\]/g, '_');
@@ -653,67 +1415,35 @@ export class DocManager {
 
 	/**
 	 * Generates an HTML report from the current documentation.
+	 * @throws If the site can't be written
 	 */
 	async generateHtml() {
-		// Optional: Wait for queue to finish before generating HTML
-		// while (this.isProcessingQueue || this.processingQueue.length > 0) {
-		//     debugLog("Waiting for documentation queue before generating HTML...");
-		//     await new Promise(resolve => setTimeout(resolve, 1000));
-		// }
 		debugLog('Generating HTML documentation...');
+		const pages = generateSite(
+			this.projectDocs,
+			this.htmlPath,
+			this.workspacePath,
+		);
+		debugLog(`Generated ${pages} HTML pages in ${this.htmlPath}`);
+	}
 
-		const template = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-            <title>Project Documentation</title>
-            <style>
-                body { font-family: system-ui; max-width: 1200px; margin: 0 auto; padding: 20px; }
-                .file { margin-bottom: 30px; border: 1px solid #eee; padding: 20px; border-radius: 8px; }
-                pre { background: #f6f8fa; padding: 15px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-wrap: break-word; }
-                .summary { margin: 15px 0; padding: 15px; background: #f0f7ff; border-radius: 6px; }
-                h2 { word-break: break-all; }
-            </style>
-        </head>
-        <body>
-            <h1>Project Documentation</h1>
-            <p>Last updated: ${new Date(
-							this.projectDocs.lastUpdated,
-						).toLocaleString()}</p>
-            ${Object.values(this.projectDocs.files)
-							.sort((a, b) => a.path.localeCompare(b.path))
-							.map(
-								file => `
-                <div class="file">
-                    <h2>${file.path}</h2>
-                    <div class="summary">
-                        <h3>Summary</h3>
-                        <p>${file.summary.replace(/\n/g, '<br/>')}</p>
-                    </div>
-                    <h3>Source Code Preview</h3>
-                    <pre><code>${file.preview
-											.replace(/</g, '&lt;')
-											.replace(/>/g, '&gt;')}</code></pre>
-                    <p><small>File Last Modified: ${new Date(
-											file.lastModified,
-										).toLocaleString()}<br>Docs Last Updated: ${new Date(
-									file.lastUpdated,
-								).toLocaleString()}</small></p>
-                </div>
-            `,
-							)
-							.join('\n')}
-        </body>
-        </html>
-        `;
-
-		const htmlFilePath = path.join(this.htmlPath, 'index.html');
-		try {
-			fs.writeFileSync(htmlFilePath, template);
-			debugLog(`Generated HTML documentation at ${htmlFilePath}`);
-		} catch (error) {
-			debugLog(`Error generating HTML file: ${error}`);
-		}
+	/**
+	 * Exports the documentation as a tree of Markdown files.
+	 *
+	 * @param outputDir Where to write, `docs/markdown` by default
+	 * @returns The directory written to and the number of files written
+	 */
+	exportMarkdown(outputDir = path.join(this.docsPath, 'markdown')): {
+		outputDir: string;
+		files: number;
+	} {
+		const files = exportMarkdown(
+			this.projectDocs,
+			outputDir,
+			this.workspacePath,
+		);
+		debugLog(`Exported ${files} Markdown files to ${outputDir}`);
+		return {outputDir, files};
 	}
 
 	/**
@@ -724,6 +1454,53 @@ export class DocManager {
 		return this.projectDocs.files[relativePath];
 	}
 
+	/**
+	 * Relative paths of every documented file, sorted.
+	 */
+	getDocumentedPaths(): string[] {
+		return Object.keys(this.projectDocs.files).sort();
+	}
+
+	/**
+	 * The documented files as a tree rooted at the workspace, with each node's
+	 * `documentation` set to the file purpose or the directory's rollup summary.
+	 */
+	getDocumentationTree(): FileNode {
+		const directories = indexDirectories(Object.keys(this.projectDocs.files));
+		const buildNode = (directory: string): FileNode => {
+			const entry = directories.get(directory);
+			return {
+				name:
+					directory === '.'
+						? path.basename(this.workspacePath)
+						: path.posix.basename(directory),
+				type: 'directory',
+				path: directory,
+				documentation: this.projectDocs.directories?.[directory]?.summary,
+				children: [
+					...(entry?.directories ?? []).map(buildNode),
+					...(entry?.files ?? []).map(filePath => {
+						const doc = this.projectDocs.files[filePath]!;
+						return {
+							name: path.posix.basename(filePath),
+							type: 'file' as const,
+							path: filePath,
+							documentation: doc.structured?.purpose ?? doc.summary,
+						};
+					}),
+				],
+			};
+		};
+		return buildNode('.');
+	}
+
+	/**
+	 * Searches file, directory and symbol documentation (see `searchDocumentation`).
+	 */
+	search(query: string, limit?: number): SearchResult[] {
+		return searchDocumentation(this.projectDocs, query, limit);
+	}
+
 	getFileHash(filePath: string): string {
 		const relativePath = this.normalizePath(filePath);
 		const docs = this.projectDocs.files[relativePath];
@@ -0,0 +1,81 @@
+import {ProjectDocumentation} from '../types/docs.js';
+
+export interface SearchResult {
+	kind: 'file' | 'directory' | 'symbol';
+	path: string; // Relative path of the file or directory
+	symbol?: string; // Qualified symbol name, for symbol results
+	text: string; // The summary or description that matched
+	score: number;
+}
+
+/**
+ * Searches file, directory and symbol documentation. Every term must appear in the
+ * path, name or text; results whose path or name contains terms rank first, the same
+ * order the HTML site's search uses.
+ *
+ * @param docs The project documentation
+ * @param query Whitespace-separated terms, matched case-insensitively
+ * @param limit Maximum number of results
+ * @returns The best matches, highest score first
+ */
+export function searchDocumentation(
+	docs: ProjectDocumentation,
+	query: string,
+	limit = 20,
+): SearchResult[] {
+	const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+	if (terms.length === 0) return [];
+
+	const candidates: Array<Omit<SearchResult, 'score'> & {title: string}> = [];
+	for (const [directory, rollup] of Object.entries(docs.directories ?? {})) {
+		candidates.push({
+			kind: 'directory',
+			path: directory,
+			title: directory,
+			text: rollup.summary,
+		});
+	}
+	for (const file of Object.values(docs.files)) {
+		candidates.push({
+			kind: 'file',
+			path: file.path,
+			title: file.path,
+			text: file.structured?.purpose ?? file.summary,
+		});
+		const symbols = file.symbols
+			? Object.values(file.symbols).map(symbol => ({
+					name: symbol.name,
+					text: `${symbol.signature} ${symbol.description}`,
+			  }))
+			: (file.structured?.symbols ?? []).map(symbol => ({
+					name: symbol.name,
+					text: symbol.summary,
+			  }));
+		for (const symbol of symbols) {
+			candidates.push({
+				kind: 'symbol',
+				path: file.path,
+				symbol: symbol.name,
+				title: symbol.name,
+				text: symbol.text,
+			});
+		}
+	}
+
+	const results: SearchResult[] = [];
+	for (const {title, ...candidate} of candidates) {
+		const lowerTitle = title.toLowerCase();
+		const haystack = `${lowerTitle} ${candidate.text.toLowerCase()}`;
+		if (!terms.every(term => haystack.includes(term))) continue;
+		const titleMatches = terms.filter(term => lowerTitle.includes(term)).length;
+		results.push({...candidate, score: 1 + titleMatches});
+	}
+	return results
+		.sort(
+			(a, b) =>
+				b.score - a.score ||
+				a.path.localeCompare(b.path) ||
+				(a.symbol ?? '').localeCompare(b.symbol ?? ''),
+		)
+		.slice(0, limit);
+}
@@ -1,57 +1,52 @@
 import path from 'node:path';
-import {GoogleGenAI} from '@google/genai';
 import * as fs from 'fs';
 import {
 	findFileInTree,
 	generateHash,
+	getFileStructure,
 	getTreeJsonPath,
 	updateFileHashes,
 } from './treesitter.js';
-import {apiKey, getDebugMode} from './ConfigManagement.js';
-
-const DEBUG = getDebugMode();
-const LOGS_DIR = path.join(process.cwd(), 'logs');
-const LOG_FILE = path.join(LOGS_DIR, 'catdoc-debug.log');
-
-const googleAi = new GoogleGenAI({apiKey: apiKey});
+import {createDebugLog} from './DebugLog.js';
+import {DocstringStyle} from './ConfigSchema.js';
+import {createProvider} from './LLMProvider.js';
+import {SymbolDocumentation} from '../types/docs.js';
+import {
+	DocstringFormat,
+	docstringFormat,
+	docstringPosition,
+	hasDocstring,
+} from './Docstrings.js';
+import {replaceDocstrings, spliceDocstrings} from './DocstringSplicer.js';
+import {LintIssue} from './DocstringLinter.js';
+import {writeFileWithJournal} from './UndoJournal.js';
+import {
+	SYMBOL_DOC_SCHEMA,
+	SymbolSource,
+	collectSymbolSources,
+	parseSymbolDocumentation,
+} from './StructuredDocs.js';
 
-// Initialize logging
-try {
-	if (!fs.existsSync(LOGS_DIR)) {
-		fs.mkdirSync(LOGS_DIR, {recursive: true});
-	}
-} catch (error) {
-	console.error('Failed to initialize logging:', error);
-}
-
-// Intentionally unused for now, keeping for future debugging
-// @ts-ignore
-const debugLog = (message: string) => {
-	if (DEBUG) {
-		const timestamp = new Date().toISOString();
-		const logMessage = `[${timestamp}] ${message}\n`;
-		try {
-			fs.appendFileSync(LOG_FILE, logMessage);
-		} catch (error) {
-			// Silently fail as we can't use console.log during operations
-		}
-	}
-};
+const debugLog = createDebugLog();
 
 /**
  * Generates docstrings for a file if it has changed or is not yet documented
  *
  * @param filePath - Path to the file to document
+ * @param projectRoot - Project whose tree index, undo journal and docstring style apply
  * @returns Promise that resolves to true if docstrings were generated, false otherwise
  */
-export async function generateDocStrings(filePath: string): Promise<boolean> {
+export async function generateDocStrings(
+	filePath: string,
+	projectRoot = process.cwd(),
+): Promise<boolean> {
 	// Only try to read the tree when the function is called
-	const treeJsonPath = getTreeJsonPath(process.cwd());
+	const treeJsonPath = getTreeJsonPath(projectRoot);
 
 	// Check if the tree.json file exists
 	if (!fs.existsSync(treeJsonPath)) {
 		// Just generate docstrings without checking hash
-		return await generateDocstringsForFile(filePath);
+		return await generateDocstringsForFile(filePath, projectRoot);
 	}
 
 	// File exists, proceed with tree comparison
@@ -64,9 +59,9 @@ export async function generateDocStrings(filePath: string): Promise<boolean> {
 	const isDiff = !result || currentHash !== result.file_hash;
 
 	if (isDiff) {
-		const success = await generateDocstringsForFile(filePath);
+		const success = await generateDocstringsForFile(filePath, projectRoot);
 		// Update the hash in the tree
-		updateFileHashes(process.cwd(), [filePath]);
+		updateFileHashes(projectRoot, [filePath]);
 		return success;
 	}
 
@@ -74,107 +69,289 @@ export async function generateDocStrings(filePath: string): Promise<boolean> {
 	return false;
 }
 
+// What the model should fill in besides the description, per docstring style
+const STYLE_GUIDANCE: Record<DocstringStyle, string> = {
+	tsdoc:
+		'TSDoc: put longer discussion in "remarks", and give public APIs a short usage "example"',
+	jsdoc: 'JSDoc: give a short usage "example" only where usage is not obvious',
+	google:
+		'Google style: use "remarks" only for non-obvious behavior, and give an "example" as a doctest (>>> lines) only where usage is not obvious',
+	numpy:
+		'NumPy style: put notes in "remarks", and give public APIs an "example" as a doctest (>>> lines)',
+	sphinx:
+		'Sphinx (reST) style: use "remarks" only for non-obvious behavior, and give an "example" only where usage is not obvious',
+};
+
 /**
- * Internal helper to generate docstrings for a file
- *
- * @param filePath - Path to the file to document
- * @returns Promise that resolves to true if docstrings were generated, false otherwise
+ * Builds the prompt asking for documentation of the symbols that lack docstrings, or
+ * with `issues`, of those whose docstrings no longer match their code.
+ * The model only describes symbols; catdoc renders and places the docstrings itself.
  */
-async function generateDocstringsForFile(filePath: string): Promise<boolean> {
-	try {
-		const fileContents = fs.readFileSync(filePath, {
-			encoding: 'utf8',
-			flag: 'r',
-		});
-		const fileExt = path.extname(filePath).substring(1); // Remove the dot
-		const fileType =
-			fileExt === 'ts'
-				? 'TypeScript'
-				: fileExt === 'tsx'
-				? 'TSX'
-				: fileExt === 'js'
-				? 'JavaScript'
-				: fileExt === 'jsx'
-				? 'JSX'
-				: fileExt === 'py'
-				? 'Python'
-				: 'Unknown';
-
-		// Update the prompt to specifically ask for raw code without Markdown formatting
-		const docString = `
-Please analyze the following source code and generate docstrings for complex or non-obvious functions, classes, methods, and interfaces. The file type is "${fileType}" and requires language-appropriate documentation.
+function buildDocstringPrompt(
+	fileType: string,
+	fileContents: string,
+	sources: SymbolSource[],
+	style: DocstringStyle,
+	issues?: Map<string, string[]>,
+): string {
+	return `
+Please analyze the following ${fileType} source code and document the listed functions, classes and methods ${
+		issues
+			? 'whose docstrings no longer match their code'
+			: 'that lack docstrings'
+	}.
 
 SELECTIVE DOCUMENTATION GUIDELINES:
 - Focus on documenting complex logic, public APIs, and non-obvious behavior
 - DO NOT document simple, self-explanatory code segments (e.g., simple getters/setters, basic React state updates)
-- DO NOT add comments to every function - prioritize where documentation adds real value
-- For simple UI components, a single comment explaining the component's purpose is often sufficient
-- Skip documenting trivial utility functions where the name clearly explains the purpose
+- Leave out symbols where documentation would not add real value; they will stay undocumented
+- For simple UI components, a single sentence explaining the component's purpose is often sufficient
 
-For elements that DO need documentation:
-1. Create a concise summary of what it does
-2. Document complex parameters and return values
-3. Document any non-obvious behavior, edge cases, or potential errors
-4. Include examples only for complex usage patterns
+For symbols that DO need documentation:
+1. Write a concise description of what it does, including non-obvious behavior and edge cases
+2. Document complex parameters and non-trivial return values
+3. List the errors it can throw
 
-For TypeScript/TSX files:
-- Use JSDoc-style comments with /** ... */
-- Document complex parameters with @param {type} name - description
-- Document non-trivial returns with @returns {type} description
-- Focus on interfaces and types that define your public API
+Docstrings are rendered as ${STYLE_GUIDANCE[style]}.
 
-For JavaScript/JSX files:
-- Use JSDoc-style comments with /** ... */
-- Keep comments minimal and targeted to complex logic
-- Include type hints only where they add clarity
+Respond with only a JSON object matching this JSON schema:
+${JSON.stringify(SYMBOL_DOC_SCHEMA)}
 
-For Python files:
-- Use Google-style docstrings with triple quotes """
-- Document only non-obvious parameters and return values
-- Follow PEP 257 conventions but be selective
+Use the exact symbol names given. Write plain text: no comment markers, no code fences.
 
-IMPORTANT: Return the complete source code with added docstrings. DO NOT wrap the code in markdown code blocks. Maintain the existing code style and formatting. Only add or update docstrings—do not modify the actual code functionality.
-
-If an element already has documentation, enhance it only if it's missing important information.
+${
+	issues
+		? 'Symbols whose docstrings no longer match their code (document every one; the docstrings are replaced):'
+		: 'Symbols without docstrings:'
+}
+${sources
+	.map(
+		source =>
+			`- ${source.name} (${source.item.type}, lines ${source.item.startLine}-${
+				source.item.endLine
+			})${issues ? `: ${issues.get(source.name)?.join('; ')}` : ''}`,
+	)
+	.join('\n')}
 
 Code:
 ${fileContents}
 `;
-		const response = await googleAi.models.generateContent({
-			model: 'gemini-2.5-pro',
-			contents: docString,
-		});
-
-		if (response.text) {
-			// Process the response to remove markdown code blocks if present
-			let processedText = response.text;
-
-			// Check if the response is wrapped in code fence blocks
-			const codeBlockRegex = /^```(?:tsx?|jsx?|python|py)?\n([\s\S]*?)```$/s;
-			const match = processedText.match(codeBlockRegex);
-
-			if (match && match[1]) {
-				// Extract just the code from between the code fences
-				processedText = match[1];
-				debugLog(`Removed code fence markers from response for ${filePath}`);
-			}
-
-			// Check if there are multiple code blocks or other formatting issues
-			const multiBlockRegex = /```(?:tsx?|jsx?|python|py)?|```/g;
-			if (multiBlockRegex.test(processedText)) {
-				// Complex case with multiple code blocks - perform more aggressive cleaning
-				processedText = processedText.replace(multiBlockRegex, '');
-				debugLog(
-					`Cleaned multiple code fence markers from response for ${filePath}`,
-				);
-			}
-
-			fs.writeFileSync(filePath, processedText);
-			return true;
-		} else {
-			return false;
-		}
+}
+
+/**
+ * Asks the model to document the given symbols of the file
+ *
+ * @throws If the response doesn't match the schema
+ */
+async function requestDocstrings(
+	filePath: string,
+	content: string,
+	sources: SymbolSource[],
+	style: DocstringStyle,
+	issues?: Map<string, string[]>,
+): Promise<SymbolDocumentation[]> {
+	const fileType = describeFileType(filePath);
+	const responseText = await createProvider().generateDocstrings({
+		filePath,
+		fileType,
+		content,
+		prompt: buildDocstringPrompt(fileType, content, sources, style, issues),
+		symbols: sources.map(source => source.name),
+	});
+	return parseSymbolDocumentation(responseText, sources);
+}
+
+export interface DocstringProposals {
+	content: string; // The file content the proposals were made against
+	symbols: SymbolDocumentation[]; // In file order
+	format: DocstringFormat; // How the file's docstrings are rendered
+}
+
+function describeFileType(filePath: string): string {
+	const fileExt = path.extname(filePath).substring(1); // Remove the dot
+	return fileExt === 'ts'
+		? 'TypeScript'
+		: fileExt === 'tsx'
+		? 'TSX'
+		: fileExt === 'js'
+		? 'JavaScript'
+		: fileExt === 'jsx'
+		? 'JSX'
+		: fileExt === 'py'
+		? 'Python'
+		: 'Unknown';
+}
+
+/**
+ * Asks the model to document the file's symbols that lack docstrings, without
+ * touching the file. Symbols the model considers self-explanatory are left out.
+ *
+ * @param filePath - Path to the file to document
+ * @param only - Qualified names to limit the request to, e.g. to regenerate one symbol
+ * @param projectRoot - Root the docstring style globs are relative to
+ * @returns The content the proposals apply to and the documentation of each symbol
+ * @throws If the file can't be read or the response doesn't match the schema
+ */
+export async function proposeDocstrings(
+	filePath: string,
+	only?: string[],
+	projectRoot = process.cwd(),
+): Promise<DocstringProposals> {
+	const fileContents = fs.readFileSync(filePath, {
+		encoding: 'utf8',
+		flag: 'r',
+	});
+	const lines = fileContents.split('\n');
+	const format = docstringFormat(filePath, lines, projectRoot);
+	const structure = getFileStructure(filePath, fileContents);
+	if (!structure) return {content: fileContents, symbols: [], format};
+	const undocumented = collectSymbolSources(
+		structure.items,
+		fileContents,
+	).filter(
+		source =>
+			(!only || only.includes(source.name)) &&
+			!hasDocstring(lines, source.item, filePath) &&
+			docstringPosition(lines, source.item, filePath),
+	);
+	if (undocumented.length === 0) {
+		return {content: fileContents, symbols: [], format};
+	}
+
+	return {
+		content: fileContents,
+		symbols: await requestDocstrings(
+			filePath,
+			fileContents,
+			undocumented,
+			format.style,
+		),
+		format,
+	};
+}
+
+/**
+ * Writes docstrings into the file, spliced in at their tree-sitter positions. Nothing
+ * is written unless re-parsing shows that only comments and docstrings changed.
+ *
+ * @param filePath - Path to the file
+ * @param content - The content the docstrings were proposed against
+ * @param symbols - Documentation of the symbols to add docstrings for
+ * @param projectRoot - Project whose undo journal records the write and whose
+ * configuration picks the docstring style
+ * @returns Qualified names of the symbols that got a docstring
+ * @throws If the file changed since `content` was read, or DocstringVerificationError
+ */
+export function applyDocstrings(
+	filePath: string,
+	content: string,
+	symbols: SymbolDocumentation[],
+	projectRoot = process.cwd(),
+): string[] {
+	if (fs.readFileSync(filePath, 'utf8') !== content) {
+		throw new Error(`${filePath} changed since the docstrings were proposed`);
+	}
+	const spliced = spliceDocstrings(
+		filePath,
+		content,
+		symbols,
+		docstringFormat(filePath, content.split('\n'), projectRoot),
+	);
+	if (spliced.inserted.length > 0) {
+		writeFileWithJournal(projectRoot, filePath, spliced.content, 'docstrings');
+		debugLog(
+			`Inserted ${
+				spliced.inserted.length
+			} docstrings into ${filePath}: ${spliced.inserted.join(', ')}`,
+		);
+	}
+	return spliced.inserted;
+}
+
+/**
+ * Regenerates the docstrings `catdoc lint-docs` found inconsistent with their code,
+ * telling the model what is wrong with each. Other docstrings are left alone, and
+ * nothing is written unless only docstrings changed.
+ *
+ * @param filePath - Path to the file
+ * @param issues - The file's lint issues
+ * @param projectRoot - Project whose undo journal records the write and whose
+ * configuration picks the docstring style
+ * @returns Qualified names of the symbols whose docstring was replaced
+ * @throws If the file changed while the model answered, the response doesn't match the
+ * schema, or DocstringVerificationError
+ */
+export async function fixDocstrings(
+	filePath: string,
+	issues: LintIssue[],
+	projectRoot = process.cwd(),
+): Promise<string[]> {
+	const content = fs.readFileSync(filePath, 'utf8');
+	const structure = getFileStructure(filePath, content);
+	if (!structure) return [];
+	const messages = new Map<string, string[]>();
+	for (const issue of issues) {
+		messages.set(issue.symbol, [
+			...(messages.get(issue.symbol) ?? []),
+			issue.message,
+		]);
+	}
+	const sources = collectSymbolSources(structure.items, content).filter(
+		source => messages.has(source.name),
+	);
+	if (sources.length === 0) return [];
+
+	const format = docstringFormat(filePath, content.split('\n'), projectRoot);
+	const symbols = await requestDocstrings(
+		filePath,
+		content,
+		sources,
+		format.style,
+		messages,
+	);
+	if (fs.readFileSync(filePath, 'utf8') !== content) {
+		throw new Error(
+			`${filePath} changed while its docstrings were regenerated`,
+		);
+	}
+	const replaced = replaceDocstrings(filePath, content, symbols, format);
+	if (replaced.inserted.length > 0) {
+		writeFileWithJournal(projectRoot, filePath, replaced.content, 'docstrings');
+		debugLog(
+			`Replaced ${
+				replaced.inserted.length
+			} inconsistent docstrings in ${filePath}: ${replaced.inserted.join(
+				', ',
+			)}`,
+		);
+	}
+	return replaced.inserted;
+}
+
+/**
+ * Internal helper to generate docstrings for a file, applying every proposal unreviewed
+ *
+ * @param filePath - Path to the file to document
+ * @param projectRoot - Project whose undo journal and docstring style apply
+ * @returns Promise that resolves to true if docstrings were generated, false otherwise
+ */
+async function generateDocstringsForFile(
+	filePath: string,
+	projectRoot: string,
+): Promise<boolean> {
+	try {
+		const proposals = await proposeDocstrings(filePath, undefined, projectRoot);
+		return (
+			applyDocstrings(
+				filePath,
+				proposals.content,
+				proposals.symbols,
+				projectRoot,
+			).length > 0
+		);
 	} catch (error) {
+		// Includes DocstringVerificationError: a response that would alter code is refused
+		debugLog(`Docstring generation failed for ${filePath}: ${error}`);
 		return false;
 	}
 }
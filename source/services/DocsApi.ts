@@ -0,0 +1,222 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import {DocManager} from './DocManager.js';
+import {DocumentationUpdate} from '../types/docs.js';
+
+export const API_PREFIX = '/api/';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * An error with the HTTP status the API responds with
+ */
+class ApiError extends Error {
+	constructor(readonly status: number, message: string) {
+		super(message);
+		this.name = 'ApiError';
+	}
+}
+
+/**
+ * REST endpoints over the DocManager's in-memory state, for editor plugins and scripts:
+ *
+ * - `GET /api/status` queue status
+ * - `GET /api/tree` documented files as a tree with summaries
+ * - `GET /api/docs?path=<file or directory>` documentation of a file or directory rollup
+ * - `GET /api/search?q=<terms>&limit=<n>` file, directory and symbol search
+ * - `POST /api/regenerate` with `{"paths": [...]}` queues files for documentation
+ * - `GET /api/events` server-sent `updated` events carrying the changed and removed paths
+ */
+export class DocsApi {
+	private subscribers = new Set<http.ServerResponse>();
+	private readonly onUpdate = (update: DocumentationUpdate) => {
+		const event = `event: updated\ndata: ${JSON.stringify(update)}\n\n`;
+		for (const subscriber of this.subscribers) subscriber.write(event);
+	};
+
+	constructor(private docManager: DocManager) {
+		docManager.on('updated', this.onUpdate);
+	}
+
+	/**
+	 * Handles a request under `/api/`, responding with JSON (errors as `{"error": ...}`)
+	 */
+	async handle(
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+		url: URL,
+	) {
+		try {
+			const route = `${request.method} ${url.pathname.slice(
+				API_PREFIX.length - 1,
+			)}`;
+			switch (route) {
+				case 'GET /status':
+					return sendJson(response, 200, this.docManager.getQueueStatus());
+				case 'GET /tree':
+					return sendJson(
+						response,
+						200,
+						this.docManager.getDocumentationTree(),
+					);
+				case 'GET /docs':
+					return sendJson(
+						response,
+						200,
+						this.getDocs(url.searchParams.get('path')),
+					);
+				case 'GET /search': {
+					const limit = Number(url.searchParams.get('limit') ?? 20);
+					if (!Number.isInteger(limit) || limit < 1) {
+						throw new ApiError(400, '"limit" must be a positive integer');
+					}
+					return sendJson(
+						response,
+						200,
+						this.docManager.search(url.searchParams.get('q') ?? '', limit),
+					);
+				}
+				case 'POST /regenerate':
+					return sendJson(
+						response,
+						202,
+						await this.regenerate(await readJson(request)),
+					);
+				case 'GET /events':
+					return this.subscribe(request, response);
+				default:
+					throw new ApiError(404, `Unknown endpoint: ${route}`);
+			}
+		} catch (error) {
+			if (error instanceof ApiError) {
+				sendJson(response, error.status, {error: error.message});
+			} else {
+				sendJson(response, 500, {error: String(error)});
+			}
+		}
+	}
+
+	/**
+	 * Keeps idle event subscriptions from being closed by proxies
+	 */
+	keepalive() {
+		for (const subscriber of this.subscribers) {
+			subscriber.write(': keepalive\n\n');
+		}
+	}
+
+	/**
+	 * Ends event subscriptions and stops listening to the DocManager
+	 */
+	close() {
+		this.docManager.off('updated', this.onUpdate);
+		for (const subscriber of this.subscribers) subscriber.end();
+		this.subscribers.clear();
+	}
+
+	private getDocs(target: string | null) {
+		if (!target) throw new ApiError(400, 'Missing "path" parameter');
+		const absolutePath = path.resolve(this.docManager.workspacePath, target);
+		const doc =
+			this.docManager.getDocumentation(absolutePath) ??
+			this.docManager.getDirectoryDocumentation(absolutePath);
+		const isExcludedFile =
+			!this.docManager.getDirectoryDocumentation(absolutePath) &&
+			!this.docManager.isDocumentable(
+				path.relative(this.docManager.workspacePath, absolutePath),
+			);
+		// Documentation of a file that is now ignored may quote its content
+		if (!doc || isExcludedFile) {
+			throw new ApiError(404, `No documentation found for ${target}`);
+		}
+		return doc;
+	}
+
+	private async regenerate(body: unknown) {
+		const paths = (body as {paths?: unknown} | null)?.paths;
+		if (
+			!Array.isArray(paths) ||
+			paths.length === 0 ||
+			!paths.every(entry => typeof entry === 'string')
+		) {
+			throw new ApiError(400, '"paths" must be a non-empty array of strings');
+		}
+		const workspace = path.resolve(this.docManager.workspacePath);
+		const queued: string[] = [];
+		for (const entry of paths as string[]) {
+			const absolutePath = path.resolve(workspace, entry);
+			if (!absolutePath.startsWith(workspace + path.sep)) {
+				throw new ApiError(400, `${entry} is outside the workspace`);
+			}
+			if (!fs.existsSync(absolutePath) || !fs.statSync(absolutePath).isFile()) {
+				throw new ApiError(404, `${entry} is not a file`);
+			}
+			const relativePath = path
+				.relative(workspace, absolutePath)
+				.replace(/\\/g, '/');
+			if (!this.docManager.isDocumentable(relativePath)) {
+				throw new ApiError(
+					403,
+					`${entry} is hidden, ignored or excluded from documentation`,
+				);
+			}
+			queued.push(relativePath);
+		}
+		for (const relativePath of queued) {
+			await this.docManager.updateDocumentation(relativePath);
+		}
+		return {queued};
+	}
+
+	private subscribe(
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+	) {
+		response.writeHead(200, {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+		});
+		response.write(': connected\n\n');
+		this.subscribers.add(response);
+		request.on('close', () => this.subscribers.delete(response));
+	}
+}
+
+function sendJson(
+	response: http.ServerResponse,
+	status: number,
+	body: unknown,
+) {
+	const json = JSON.stringify(body);
+	response.writeHead(status, {
+		'Content-Type': 'application/json; charset=utf-8',
+		'Content-Length': Buffer.byteLength(json),
+		'Cache-Control': 'no-cache',
+	});
+	response.end(json);
+}
+
+/**
+ * Reads a JSON request body. Requiring the JSON content type also keeps other
+ * websites from posting to the API, since browsers preflight such requests. Pages
+ * that rebind their own domain to this server are stopped by the server's Host check.
+ */
+async function readJson(request: http.IncomingMessage): Promise<unknown> {
+	if (!request.headers['content-type']?.startsWith('application/json')) {
+		throw new ApiError(415, 'Expected Content-Type: application/json');
+	}
+	let body = '';
+	for await (const chunk of request) {
+		body += chunk;
+		if (body.length > MAX_BODY_BYTES) {
+			throw new ApiError(413, 'Request body too large');
+		}
+	}
+	try {
+		return JSON.parse(body);
+	} catch (error) {
+		throw new ApiError(400, `Invalid JSON: ${error}`);
+	}
+}
@@ -0,0 +1,238 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import {DocManager} from './DocManager.js';
+import {API_PREFIX, DocsApi} from './DocsApi.js';
+import {createDebugLog} from './DebugLog.js';
+import {DocumentationUpdate} from '../types/docs.js';
+
+const debugLog = createDebugLog('DocsServer');
+
+const EVENTS_PATH = '/__catdoc/events';
+const MARKDOWN_PREFIX = '/markdown/';
+const KEEPALIVE_INTERVAL = 30_000;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+const CONTENT_TYPES: Record<string, string> = {
+	'.html': 'text/html; charset=utf-8',
+	'.css': 'text/css; charset=utf-8',
+	'.js': 'text/javascript; charset=utf-8',
+	'.json': 'application/json; charset=utf-8',
+	// Plain text so browsers display the export instead of downloading it
+	'.md': 'text/plain; charset=utf-8',
+};
+
+// Reloads the page when the server announces regenerated docs
+const LIVE_RELOAD_SCRIPT = `<script>
+new EventSource('${EVENTS_PATH}').addEventListener('reload', () => location.reload());
+</script>`;
+
+export interface DocsServerOptions {
+	port: number;
+	host: string;
+}
+
+/**
+ * Serves the generated HTML site at `/` and the Markdown export under `/markdown/`,
+ * regenerating both whenever the DocManager reports updated documentation and telling
+ * open pages to reload over server-sent events. The query API is mounted at `/api/`.
+ */
+export class DocsServer {
+	private server: http.Server;
+	private api: DocsApi;
+	private clients = new Set<http.ServerResponse>();
+	private keepalive: NodeJS.Timeout | null = null;
+	private regeneration: Promise<void> = Promise.resolve();
+	private boundHost = '';
+	private boundPort = 0;
+	private readonly htmlDir: string;
+	private readonly markdownDir: string;
+	private readonly onUpdate = (update: DocumentationUpdate) => {
+		this.regeneration = this.regeneration.then(() => this.regenerate(update));
+	};
+
+	constructor(private docManager: DocManager) {
+		this.htmlDir = path.join(docManager.docsPath, 'html');
+		this.markdownDir = path.join(docManager.docsPath, 'markdown');
+		this.api = new DocsApi(docManager);
+		this.server = http.createServer((request, response) =>
+			this.handle(request, response),
+		);
+	}
+
+	/**
+	 * Generates the site and export, then starts listening.
+	 *
+	 * @returns The URL the docs are served at
+	 */
+	async start({port, host}: DocsServerOptions): Promise<string> {
+		await this.docManager.generateHtml();
+		this.docManager.exportMarkdown(this.markdownDir);
+		this.docManager.on('updated', this.onUpdate);
+
+		await new Promise<void>((resolve, reject) => {
+			this.server.once('error', reject);
+			this.server.listen(port, host, () => {
+				this.server.off('error', reject);
+				resolve();
+			});
+		});
+		this.keepalive = setInterval(() => {
+			for (const client of this.clients) client.write(': keepalive\n\n');
+			this.api.keepalive();
+		}, KEEPALIVE_INTERVAL);
+
+		const address = this.server.address();
+		const actualPort =
+			address && typeof address === 'object' ? address.port : port;
+		this.boundHost = host;
+		this.boundPort = actualPort;
+		const url = `http://${
+			host.includes(':') ? `[${host}]` : host
+		}:${actualPort}/`;
+		debugLog(`Serving documentation at ${url}`);
+		return url;
+	}
+
+	/**
+	 * Stops listening and disconnects live-reload clients.
+	 */
+	async close() {
+		this.docManager.off('updated', this.onUpdate);
+		if (this.keepalive) clearInterval(this.keepalive);
+		for (const client of this.clients) client.end();
+		this.clients.clear();
+		this.api.close();
+		await new Promise<void>(resolve => this.server.close(() => resolve()));
+		debugLog('Docs server closed');
+	}
+
+	private async regenerate(update: DocumentationUpdate) {
+		try {
+			await this.docManager.generateHtml();
+			this.docManager.exportMarkdown(this.markdownDir);
+		} catch (error) {
+			debugLog(`Error regenerating docs: ${error}`);
+			return;
+		}
+		debugLog(
+			`Regenerated docs, reloading ${this.clients.size} clients: ${[
+				...update.changed,
+				...update.removed,
+			].join(', ')}`,
+		);
+		const event = `event: reload\ndata: ${JSON.stringify(update)}\n\n`;
+		for (const client of this.clients) client.write(event);
+	}
+
+	/**
+	 * Whether the Host header names this server, so a website whose domain was rebound
+	 * to the server's address can't read the docs or use the API. When bound to every
+	 * interface, IP addresses, localhost and the machine's name are accepted.
+	 */
+	private isAllowedHost(request: http.IncomingMessage): boolean {
+		let hostname: string;
+		let port: string;
+		try {
+			({hostname, port} = new URL(`http://${request.headers.host ?? ''}`));
+		} catch (error) {
+			return false;
+		}
+		hostname = hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+		if (Number(port || 80) !== this.boundPort) return false;
+		if (WILDCARD_HOSTS.includes(this.boundHost)) {
+			return (
+				net.isIP(hostname) !== 0 ||
+				hostname === 'localhost' ||
+				hostname === os.hostname().toLowerCase()
+			);
+		}
+		const boundHost = this.boundHost.toLowerCase();
+		return (
+			hostname === boundHost ||
+			(LOOPBACK_HOSTS.includes(boundHost) && LOOPBACK_HOSTS.includes(hostname))
+		);
+	}
+
+	private handle(request: http.IncomingMessage, response: http.ServerResponse) {
+		if (!this.isAllowedHost(request)) {
+			response.writeHead(421).end('Unknown host');
+			return;
+		}
+		let url: URL;
+		let pathname: string;
+		try {
+			url = new URL(request.url ?? '/', 'http://localhost');
+			pathname = decodeURIComponent(url.pathname);
+		} catch (error) {
+			response.writeHead(400).end('Bad request');
+			return;
+		}
+
+		if (pathname.startsWith(API_PREFIX)) {
+			this.api.handle(request, response, url);
+			return;
+		}
+		if (request.method !== 'GET' && request.method !== 'HEAD') {
+			response.writeHead(405, {Allow: 'GET, HEAD'}).end();
+			return;
+		}
+
+		if (pathname === EVENTS_PATH) {
+			response.writeHead(200, {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache',
+				Connection: 'keep-alive',
+			});
+			response.write(': connected\n\n');
+			this.clients.add(response);
+			request.on('close', () => this.clients.delete(response));
+			return;
+		}
+
+		const [root, relative] = `${pathname}/`.startsWith(MARKDOWN_PREFIX)
+			? [this.markdownDir, pathname.slice(MARKDOWN_PREFIX.length)]
+			: [this.htmlDir, pathname.slice(1)];
+		let filePath = path.resolve(root, relative);
+		if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+			response.writeHead(403).end('Forbidden');
+			return;
+		}
+		if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+			if (!pathname.endsWith('/')) {
+				// Relative links inside the index only resolve with the trailing slash
+				response.writeHead(301, {Location: `${encodeURI(pathname)}/`}).end();
+				return;
+			}
+			filePath = path.join(
+				filePath,
+				root === this.markdownDir ? 'index.md' : 'index.html',
+			);
+		}
+
+		let body: Buffer;
+		try {
+			body = fs.readFileSync(filePath);
+		} catch (error) {
+			response.writeHead(404, {'Content-Type': 'text/plain; charset=utf-8'});
+			response.end(`Not found: ${pathname}`);
+			return;
+		}
+
+		const extension = path.extname(filePath).toLowerCase();
+		if (extension === '.html') {
+			body = Buffer.from(
+				body.toString('utf8').replace(/<\/body>/i, `${LIVE_RELOAD_SCRIPT}\n$&`),
+			);
+		}
+		response.writeHead(200, {
+			'Content-Type': CONTENT_TYPES[extension] ?? 'application/octet-stream',
+			'Content-Length': body.length,
+			'Cache-Control': 'no-cache',
+		});
+		response.end(request.method === 'HEAD' ? undefined : body);
+	}
+}
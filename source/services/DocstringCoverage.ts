@@ -0,0 +1,137 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {DocManager} from './DocManager.js';
+import {indexDirectories} from './DirectoryIndex.js';
+import {hasDocstring} from './Docstrings.js';
+import {qualifySymbols} from './StructuredDocs.js';
+import {CodeItem, getFileStructure} from './treesitter.js';
+
+export interface CoverageCounts {
+	total: number; // Classes, methods and functions
+	documented: number; // Those carrying a JSDoc block or docstring
+	percent: number;
+}
+
+export interface SymbolCoverage {
+	name: string; // Qualified, e.g. DocManager.saveDocs
+	type: CodeItem['type'];
+	line: number; // 1-based
+	documented: boolean;
+}
+
+export interface FileCoverage extends CoverageCounts {
+	path: string;
+	symbols: SymbolCoverage[];
+}
+
+export interface CoverageReport {
+	measuredAt: string;
+	project: CoverageCounts;
+	directories: Record<string, CoverageCounts>; // Keyed by relative path, '.' for the root
+	files: FileCoverage[]; // Only files that define symbols, sorted by path
+}
+
+const percentage = (count: number, total: number) =>
+	total === 0 ? 100 : Math.round((count / total) * 10000) / 100;
+
+const counts = (total: number, documented: number): CoverageCounts => ({
+	total,
+	documented,
+	percent: percentage(documented, total),
+});
+
+/**
+ * Which of a file's symbols carry docstrings, or null when tree-sitter cannot parse
+ * the file's language
+ *
+ * @param filePath Path of the file, which decides the language
+ * @param content The file's content
+ */
+export function measureFileCoverage(
+	filePath: string,
+	content: string,
+): SymbolCoverage[] | null {
+	const structure = getFileStructure(filePath, content);
+	if (!structure) return null;
+	const lines = content.split('\n');
+	return qualifySymbols(structure.items).map(({name, item}) => ({
+		name,
+		type: item.type,
+		line: item.startLine,
+		documented: hasDocstring(lines, item, filePath),
+	}));
+}
+
+/**
+ * Measures docstring coverage of every workspace file tree-sitter can parse, rolled up
+ * per directory and for the project. Only reads and parses files; never calls a model.
+ *
+ * @param docManager DocManager of the workspace
+ * @returns Coverage per file, per directory and for the project
+ */
+export async function measureDocstringCoverage(
+	docManager: DocManager,
+): Promise<CoverageReport> {
+	const files: FileCoverage[] = [];
+	for (const relativePath of await docManager.listWorkspaceFiles()) {
+		const absolutePath = path.join(docManager.workspacePath, relativePath);
+		let symbols: SymbolCoverage[] | null;
+		try {
+			symbols = measureFileCoverage(
+				absolutePath,
+				fs.readFileSync(absolutePath, 'utf-8'),
+			);
+		} catch (error) {
+			continue; // Deleted or unreadable since the scan
+		}
+		if (!symbols || symbols.length === 0) continue;
+		files.push({
+			path: relativePath,
+			...counts(
+				symbols.length,
+				symbols.filter(symbol => symbol.documented).length,
+			),
+			symbols,
+		});
+	}
+	files.sort((a, b) => a.path.localeCompare(b.path));
+
+	const directories: Record<string, CoverageCounts> = {};
+	const directoryPaths = [
+		...indexDirectories(files.map(file => file.path)).keys(),
+	].sort();
+	for (const directory of directoryPaths) {
+		const prefix = directory === '.' ? '' : `${directory}/`;
+		let total = 0;
+		let documented = 0;
+		for (const file of files) {
+			if (!file.path.startsWith(prefix)) continue;
+			total += file.total;
+			documented += file.documented;
+		}
+		directories[directory] = counts(total, documented);
+	}
+
+	return {
+		measuredAt: new Date().toISOString(),
+		project: directories['.'] ?? counts(0, 0),
+		directories,
+		files,
+	};
+}
+
+/**
+ * Coverage percentages keyed by relative file and directory path, as `FileTree` shows them
+ */
+export function coveragePercentages(
+	report: CoverageReport,
+): Record<string, number> {
+	const percentages: Record<string, number> = {};
+	for (const [directory, directoryCounts] of Object.entries(
+		report.directories,
+	)) {
+		percentages[directory] = directoryCounts.percent;
+	}
+	for (const file of report.files) percentages[file.path] = file.percent;
+	return percentages;
+}
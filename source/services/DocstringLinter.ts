@@ -0,0 +1,488 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Parser, {SyntaxNode} from 'tree-sitter';
+import {DocManager} from './DocManager.js';
+import {findDocstring, isPythonFile} from './Docstrings.js';
+import {qualifySymbols} from './StructuredDocs.js';
+import {CodeItem, getFileStructure, parseSource} from './treesitter.js';
+
+export type LintIssueKind =
+	| 'unknown-param' // Documented, but not in the signature
+	| 'missing-param' // In the signature of a symbol documenting other params
+	| 'renamed-param' // Documented under the name it had before a rename
+	| 'void-returns' // A return value documented on a function returning nothing
+	| 'stale-name'; // An @function/@name/@method tag naming another symbol
+
+export interface LintIssue {
+	kind: LintIssueKind;
+	symbol: string; // Qualified name
+	line: number; // 1-based line of the declaration
+	message: string;
+}
+
+export interface FileLintResult {
+	path: string;
+	issues: LintIssue[];
+}
+
+export interface DocLintReport {
+	checkedAt: string;
+	symbolsChecked: number; // Documented functions and methods
+	issueCount: number;
+	files: FileLintResult[]; // Only files with issues, sorted by path
+}
+
+const FUNCTION_TYPES = [
+	'function_declaration',
+	'generator_function_declaration',
+	'function_expression',
+	'function',
+	'arrow_function',
+	'method_definition',
+	'function_definition', // Python
+];
+
+// Nested scopes whose returns don't belong to the enclosing function
+const SCOPE_TYPES = [
+	...FUNCTION_TYPES,
+	'class_declaration',
+	'class',
+	'class_definition',
+	'lambda',
+];
+
+interface Signature {
+	params: string[];
+	destructured: boolean; // Has a parameter without a name of its own, e.g. `{a, b}`
+	returnsNothing: boolean | undefined; // Undefined when it can't be told
+}
+
+interface DocumentedSignature {
+	params: string[]; // In documentation order
+	returns: boolean;
+	returnsVoid: boolean; // Documented as returning nothing, e.g. `@returns {void}`
+	names: string[]; // From @function, @method and @name tags
+}
+
+const normalizeParam = (name: string) => name.replace(/^(\.\.\.|\*{1,2})/, '');
+
+/**
+ * Name a parameter binds, null for destructuring patterns, undefined for nodes that
+ * aren't parameters (`this`, `*` and `/` separators)
+ */
+function bindingName(node: SyntaxNode | null): string | null | undefined {
+	if (!node) return undefined;
+	switch (node.type) {
+		case 'identifier':
+			return node.text;
+		case 'required_parameter':
+		case 'optional_parameter':
+			return bindingName(node.childForFieldName('pattern'));
+		case 'assignment_pattern':
+			return bindingName(node.childForFieldName('left'));
+		case 'default_parameter':
+		case 'typed_default_parameter':
+			return bindingName(node.childForFieldName('name'));
+		case 'typed_parameter':
+		case 'rest_pattern':
+		case 'list_splat_pattern':
+		case 'dictionary_splat_pattern':
+			return bindingName(node.firstNamedChild);
+		case 'object_pattern':
+		case 'array_pattern':
+		case 'tuple_pattern':
+			return null;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Whether a Python body holds nothing but a docstring, `pass`, `...` or a raise, as in
+ * abstract methods and stubs
+ */
+function isPythonStub(body: SyntaxNode): boolean {
+	return body.namedChildren
+		.filter(child => child.type !== 'comment')
+		.every(
+			child =>
+				child.type === 'pass_statement' ||
+				child.type === 'raise_statement' ||
+				(child.type === 'expression_statement' &&
+					['string', 'ellipsis'].includes(child.firstNamedChild?.type ?? '')),
+		);
+}
+
+/**
+ * Whether the function returns nothing: annotated `void`/`never` (`None` in Python),
+ * a constructor, or a body without value-returning `return`s and `yield`s. Async and
+ * expression-bodied functions return something; stubs can't be told.
+ */
+function returnsNothing(
+	fn: SyntaxNode,
+	name: string,
+	python: boolean,
+): boolean | undefined {
+	const returnType = fn.childForFieldName('return_type');
+	if (returnType) {
+		const type = returnType.text.replace(/^:/, '').trim();
+		return python
+			? ['None', 'NoReturn'].includes(type)
+			: ['void', 'never', 'undefined'].includes(type);
+	}
+	if (name === 'constructor' || name === '__init__') return true;
+	const body = fn.childForFieldName('body');
+	if (!body) return undefined; // Overload signatures and abstract methods
+	if (python) {
+		if (isPythonStub(body)) return undefined;
+	} else {
+		if (body.type !== 'statement_block') return false;
+		if (
+			fn.children.some(child => child.type === 'async' || child.type === '*')
+		) {
+			return false;
+		}
+		const statements = body.namedChildren.filter(
+			child => child.type !== 'comment',
+		);
+		if (
+			statements.length > 0 &&
+			statements.every(child => child.type === 'throw_statement')
+		) {
+			return undefined;
+		}
+	}
+
+	const returnsValue = (node: SyntaxNode): boolean =>
+		node.namedChildren.some(child => {
+			if (SCOPE_TYPES.includes(child.type)) return false;
+			if (child.type === 'yield_expression' || child.type === 'yield') {
+				return true;
+			}
+			if (
+				child.type === 'return_statement' &&
+				child.namedChildren.some(value => value.type !== 'comment')
+			) {
+				return true;
+			}
+			return returnsValue(child);
+		});
+	return !returnsValue(body);
+}
+
+function readSignature(
+	fn: SyntaxNode,
+	name: string,
+	python: boolean,
+): Signature {
+	const parameters =
+		fn.childForFieldName('parameters') ?? fn.childForFieldName('parameter');
+	const params: string[] = [];
+	let destructured = false;
+	const nodes =
+		parameters?.type === 'identifier'
+			? [parameters] // `x => ...`
+			: parameters?.namedChildren ?? [];
+	for (const node of nodes) {
+		const binding = bindingName(node);
+		if (binding === null) destructured = true;
+		if (!binding) continue;
+		// The receiver of Python methods is never documented
+		if (python && node === nodes[0] && ['self', 'cls'].includes(binding)) {
+			continue;
+		}
+		params.push(binding);
+	}
+	return {
+		params,
+		destructured,
+		returnsNothing: returnsNothing(fn, name, python),
+	};
+}
+
+/**
+ * Skips a JSDoc `{type}`, which may nest braces, at the start of the text
+ */
+function skipJsDocType(text: string): string {
+	if (!text.startsWith('{')) return text;
+	let depth = 0;
+	for (let index = 0; index < text.length; index++) {
+		if (text[index] === '{') depth++;
+		if (text[index] === '}' && --depth === 0) {
+			return text.slice(index + 1).trimStart();
+		}
+	}
+	return '';
+}
+
+const VOID_DESCRIPTION = /^(nothing|none|void|undefined)\b/i;
+
+function readJsDoc(text: string[]): DocumentedSignature {
+	const documented: DocumentedSignature = {
+		params: [],
+		returns: false,
+		returnsVoid: false,
+		names: [],
+	};
+	for (const line of text) {
+		const tag = line.match(/^@(\w+)\s*(.*)$/);
+		if (!tag) continue;
+		const [, name, rest] = tag;
+		if (['param', 'arg', 'argument'].includes(name!)) {
+			const param = skipJsDocType(rest!).match(/^\[?\s*((?:\.\.\.)?[\w$.]+)/);
+			// Properties of a parameter (`options.path`) are not parameters themselves
+			const paramName = param && normalizeParam(param[1]!);
+			if (paramName && !paramName.includes('.')) {
+				documented.params.push(paramName);
+			}
+		} else if (name === 'returns' || name === 'return') {
+			documented.returns = true;
+			const type = rest!.match(/^\{\s*([^}]*?)\s*\}/)?.[1];
+			documented.returnsVoid =
+				['void', 'undefined', 'never'].includes(type ?? '') ||
+				VOID_DESCRIPTION.test(skipJsDocType(rest!));
+		} else if (['function', 'func', 'method', 'name'].includes(name!)) {
+			const symbolName = rest!.match(/^[\w$.#]+/)?.[0];
+			if (symbolName) documented.names.push(symbolName);
+		}
+	}
+	return documented;
+}
+
+const PYTHON_PARAM_SECTIONS = [
+	'Args',
+	'Arguments',
+	'Parameters',
+	'Params',
+	'Other Parameters',
+];
+const PYTHON_RETURN_SECTIONS = ['Returns', 'Return'];
+
+/**
+ * Reads the documented parameters and return value of a Google, NumPy or Sphinx style
+ * docstring, whatever style the project is configured with
+ */
+function readPythonDocstring(text: string[]): DocumentedSignature {
+	const documented: DocumentedSignature = {
+		params: [],
+		returns: false,
+		returnsVoid: false,
+		names: [],
+	};
+	let section: 'params' | 'returns' | 'other' | null = null;
+	let entryIndent: number | undefined;
+	const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+	for (let index = 0; index < text.length; index++) {
+		const line = text[index]!;
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+
+		const sphinx = trimmed.match(
+			/^:(param|parameter|arg|argument|returns?|rtype)\b\s*([^:]*):\s*(.*)$/,
+		);
+		if (sphinx) {
+			if (sphinx[1]!.startsWith('r')) {
+				documented.returns = true;
+				documented.returnsVoid = VOID_DESCRIPTION.test(sphinx[3]!);
+			} else {
+				const name = sphinx[2]!.trim().split(/\s+/).pop();
+				if (name) documented.params.push(normalizeParam(name));
+			}
+			continue;
+		}
+
+		// Google headers end in ':', NumPy headers are underlined with dashes
+		const google = trimmed.match(/^([A-Z][\w ]*):$/)?.[1];
+		const numpy = /^-{3,}$/.test(text[index + 1]?.trim() ?? '')
+			? trimmed
+			: undefined;
+		const header = google ?? numpy;
+		if (header) {
+			section = PYTHON_PARAM_SECTIONS.includes(header)
+				? 'params'
+				: PYTHON_RETURN_SECTIONS.includes(header)
+				? 'returns'
+				: 'other';
+			entryIndent = numpy ? indentOf(line) : undefined;
+			if (numpy) index++; // The underline
+			continue;
+		}
+
+		if (section === 'returns') {
+			documented.returns = true;
+			documented.returnsVoid ||= VOID_DESCRIPTION.test(trimmed);
+			section = 'other';
+		} else if (section === 'params') {
+			entryIndent ??= indentOf(line);
+			if (indentOf(line) < entryIndent) {
+				section = null;
+			} else if (indentOf(line) === entryIndent) {
+				const names = trimmed.match(/^([\w*]+(?:\s*,\s*[\w*]+)*)\s*(?:\(|:|$)/);
+				for (const name of names?.[1]!.split(',') ?? []) {
+					documented.params.push(normalizeParam(name.trim()));
+				}
+			}
+		}
+	}
+	return documented;
+}
+
+/**
+ * Compares a symbol's documented parameters and return value with its signature
+ */
+function compareSignature(
+	name: string,
+	item: CodeItem,
+	signature: Signature,
+	documented: DocumentedSignature,
+): LintIssue[] {
+	const issue = (kind: LintIssueKind, message: string): LintIssue => ({
+		kind,
+		symbol: name,
+		line: item.startLine,
+		message,
+	});
+	const issues: LintIssue[] = [];
+	const params = signature.params.map(normalizeParam);
+	const unknown = signature.destructured
+		? []
+		: documented.params.filter(param => !params.includes(param));
+	const missing =
+		documented.params.length === 0
+			? []
+			: params.filter(param => !documented.params.includes(param));
+
+	for (const param of unknown) {
+		// A rename leaves the old name where the new parameter sits
+		const current = params[documented.params.indexOf(param)];
+		if (current && missing.includes(current)) {
+			missing.splice(missing.indexOf(current), 1);
+			issues.push(
+				issue(
+					'renamed-param',
+					`documents \`${param}\`, apparently renamed to \`${current}\``,
+				),
+			);
+		} else {
+			issues.push(
+				issue(
+					'unknown-param',
+					`documents \`${param}\`, which ${item.name} does not take`,
+				),
+			);
+		}
+	}
+	for (const param of missing) {
+		issues.push(issue('missing-param', `does not document \`${param}\``));
+	}
+	if (
+		documented.returns &&
+		!documented.returnsVoid &&
+		signature.returnsNothing === true
+	) {
+		issues.push(
+			issue(
+				'void-returns',
+				`documents a return value, but ${item.name} returns nothing`,
+			),
+		);
+	}
+	for (const documentedName of documented.names) {
+		if (documentedName.split(/[.#]/).pop() !== item.name) {
+			issues.push(
+				issue(
+					'stale-name',
+					`is documented as \`${documentedName}\`, but is named \`${item.name}\``,
+				),
+			);
+		}
+	}
+	return issues;
+}
+
+/**
+ * Checks the docstrings of a file's functions and methods against their signatures.
+ * Symbols without docstrings, and classes, are not checked.
+ *
+ * @param filePath Path of the file, which decides the language
+ * @param content The file's content
+ * @returns The issues in file order and how many docstrings were checked, or null when
+ * tree-sitter cannot parse the file's language
+ */
+export function lintFileDocstrings(
+	filePath: string,
+	content: string,
+): {issues: LintIssue[]; checked: number} | null {
+	const parsed = parseSource(filePath, content, new Parser());
+	const structure = getFileStructure(filePath, content);
+	if (!parsed || !structure) return null;
+	const python = isPythonFile(filePath);
+	const lines = content.split('\n');
+
+	// Outermost function node per start row, matched to items by their start line
+	const functionNodes = new Map<number, SyntaxNode>();
+	for (const node of parsed.tree.rootNode.descendantsOfType(FUNCTION_TYPES)) {
+		if (!functionNodes.has(node.startPosition.row)) {
+			functionNodes.set(node.startPosition.row, node);
+		}
+	}
+
+	const issues: LintIssue[] = [];
+	let checked = 0;
+	for (const {name, item} of qualifySymbols(structure.items)) {
+		if (item.type === 'class') continue;
+		const docstring = findDocstring(lines, item, filePath);
+		const fn = functionNodes.get(item.startLine - 1);
+		if (!docstring || !fn) continue;
+		checked++;
+		issues.push(
+			...compareSignature(
+				name,
+				item,
+				readSignature(fn, item.name, python),
+				python
+					? readPythonDocstring(docstring.text)
+					: readJsDoc(docstring.text),
+			),
+		);
+	}
+	return {issues, checked};
+}
+
+/**
+ * Lints the docstrings of every workspace file tree-sitter can parse. Only reads and
+ * parses files; never calls a model.
+ *
+ * @param docManager DocManager of the workspace
+ * @returns The issues per file
+ */
+export async function lintDocstrings(
+	docManager: DocManager,
+): Promise<DocLintReport> {
+	const report: DocLintReport = {
+		checkedAt: new Date().toISOString(),
+		symbolsChecked: 0,
+		issueCount: 0,
+		files: [],
+	};
+	for (const relativePath of await docManager.listWorkspaceFiles()) {
+		const absolutePath = path.join(docManager.workspacePath, relativePath);
+		let result: ReturnType<typeof lintFileDocstrings>;
+		try {
+			result = lintFileDocstrings(
+				absolutePath,
+				fs.readFileSync(absolutePath, 'utf-8'),
+			);
+		} catch (error) {
+			continue; // Deleted or unreadable since the scan
+		}
+		if (!result) continue;
+		report.symbolsChecked += result.checked;
+		if (result.issues.length === 0) continue;
+		report.issueCount += result.issues.length;
+		report.files.push({path: relativePath, issues: result.issues});
+	}
+	report.files.sort((a, b) => a.path.localeCompare(b.path));
+	return report;
+}
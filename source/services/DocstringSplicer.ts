@@ -0,0 +1,331 @@
+import Parser, {SyntaxNode} from 'tree-sitter';
+import {SymbolDocumentation} from '../types/docs.js';
+import {
+	DocstringFormat,
+	docstringPosition,
+	findDocstring,
+	hasDocstring,
+	isPythonFile,
+	renderDocstring,
+} from './Docstrings.js';
+import {qualifySymbols} from './StructuredDocs.js';
+import {CodeItem, getFileStructure, parseSource} from './treesitter.js';
+
+/**
+ * Thrown when splicing docstrings would change anything besides comments and
+ * docstrings; the file must then be left untouched.
+ */
+export class DocstringVerificationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'DocstringVerificationError';
+	}
+}
+
+export interface SplicedDocstrings {
+	content: string;
+	inserted: string[]; // Qualified names, in file order
+	skipped: string[]; // Unknown, already documented, or Python one-liners
+}
+
+/**
+ * Whether a Python statement is a docstring: a lone string opening a module, class or
+ * function body (comments before it don't count)
+ */
+function isPythonDocstring(node: SyntaxNode): boolean {
+	if (
+		node.type !== 'expression_statement' ||
+		node.namedChildCount !== 1 ||
+		node.firstNamedChild?.type !== 'string'
+	) {
+		return false;
+	}
+	const body = node.parent;
+	if (
+		!body ||
+		!(
+			body.type === 'module' ||
+			(body.type === 'block' &&
+				['function_definition', 'class_definition'].includes(
+					body.parent?.type ?? '',
+				))
+		)
+	) {
+		return false;
+	}
+	const first = body.namedChildren.find(child => child.type !== 'comment');
+	return first?.startIndex === node.startIndex;
+}
+
+/**
+ * The source's tokens without comments and Python docstrings: the text of every leaf,
+ * plus any non-blank text a node holds between its children (such as template literal
+ * content that the grammar doesn't expose as nodes). Layout whitespace is left out.
+ *
+ * @returns The tokens, or null when the language can't be parsed
+ */
+export function codeTokens(
+	filePath: string,
+	content: string,
+): {tokens: string[]; hasError: boolean} | null {
+	const parsed = parseSource(filePath, content, new Parser());
+	if (!parsed) return null;
+	const bytes = Buffer.from(content, 'utf8');
+	const python = isPythonFile(filePath);
+	const tokens: string[] = [];
+	const pushGap = (start: number, end: number) => {
+		const gap = bytes.subarray(start, end).toString('utf8');
+		if (gap.trim()) tokens.push(gap);
+	};
+	const visit = (node: SyntaxNode) => {
+		if (node.type === 'comment' || (python && isPythonDocstring(node))) return;
+		if (node.childCount === 0) {
+			if (node.text) tokens.push(node.text);
+			return;
+		}
+		let offset = node.startIndex;
+		for (const child of node.children) {
+			pushGap(offset, child.startIndex);
+			visit(child);
+			offset = child.endIndex;
+		}
+		pushGap(offset, node.endIndex);
+	};
+	visit(parsed.tree.rootNode);
+	return {tokens, hasError: parsed.tree.rootNode.hasError};
+}
+
+/**
+ * Checks that two versions of a file differ only in comments, docstrings and layout
+ *
+ * @throws DocstringVerificationError naming the first differing token
+ */
+export function verifyOnlyDocstringsChanged(
+	filePath: string,
+	original: string,
+	updated: string,
+): void {
+	const before = codeTokens(filePath, original);
+	const after = codeTokens(filePath, updated);
+	if (!before || !after) {
+		throw new DocstringVerificationError(`Cannot parse ${filePath}`);
+	}
+	if (after.hasError && !before.hasError) {
+		throw new DocstringVerificationError(
+			`Docstrings would introduce syntax errors into ${filePath}`,
+		);
+	}
+	const length = Math.max(before.tokens.length, after.tokens.length);
+	for (let index = 0; index < length; index++) {
+		if (before.tokens[index] !== after.tokens[index]) {
+			throw new DocstringVerificationError(
+				`Docstrings would change the code of ${filePath}: token ${index} ${JSON.stringify(
+					before.tokens[index] ?? '(end of file)',
+				)} became ${JSON.stringify(after.tokens[index] ?? '(end of file)')}`,
+			);
+		}
+	}
+}
+
+interface Insertion {
+	name: string;
+	line: number; // 0-based index of the line the docstring goes before
+	text: string[];
+}
+
+/**
+ * The file's symbols by qualified name
+ *
+ * @throws DocstringVerificationError if the file can't be parsed
+ */
+function symbolItems(filePath: string, content: string): Map<string, CodeItem> {
+	const structure = getFileStructure(filePath, content);
+	if (!structure) {
+		throw new DocstringVerificationError(`Cannot parse ${filePath}`);
+	}
+	return new Map(
+		qualifySymbols(structure.items).map(({name, item}) => [name, item]),
+	);
+}
+
+/**
+ * Where and what to insert for a symbol; undefined when it is unknown, already
+ * documented, or a Python one-liner
+ */
+function planInsertion(
+	filePath: string,
+	lines: string[],
+	items: Map<string, CodeItem>,
+	symbol: SymbolDocumentation,
+	format: DocstringFormat,
+): Insertion | undefined {
+	const item = items.get(symbol.name);
+	const position =
+		item && !hasDocstring(lines, item, filePath)
+			? docstringPosition(lines, item, filePath)
+			: undefined;
+	if (!position) return undefined;
+	return {
+		name: symbol.name,
+		line: position.line,
+		text: renderDocstring(symbol, filePath, position.indent, format),
+	};
+}
+
+/**
+ * Renders the insertion of one symbol's docstring as a unified diff hunk
+ *
+ * @param filePath The file's path, which decides the language
+ * @param content The file's current content
+ * @param symbol Documentation of the symbol
+ * @param format Docstring style and indentation, see `docstringFormat`
+ * @param label Path shown in the diff header, the file path by default
+ * @param context Unchanged lines shown around the insertion
+ * @returns The diff, or null when the symbol can't take a docstring
+ */
+export function docstringDiff(
+	filePath: string,
+	content: string,
+	symbol: SymbolDocumentation,
+	format: DocstringFormat,
+	label = filePath,
+	context = 3,
+): string | null {
+	const lines = content.split('\n');
+	const insertion = planInsertion(
+		filePath,
+		lines,
+		symbolItems(filePath, content),
+		symbol,
+		format,
+	);
+	if (!insertion) return null;
+	const before = lines.slice(
+		Math.max(0, insertion.line - context),
+		insertion.line,
+	);
+	const after = lines.slice(insertion.line, insertion.line + context);
+	const start = insertion.line - before.length + 1;
+	return [
+		`--- a/${label}`,
+		`+++ b/${label}`,
+		`@@ -${start},${before.length + after.length} +${start},${
+			before.length + insertion.text.length + after.length
+		} @@ ${symbol.name}`,
+		...before.map(line => ` ${line}`),
+		...insertion.text.map(line => `+${line}`),
+		...after.map(line => ` ${line}`),
+	].join('\n');
+}
+
+/**
+ * Inserts rendered docstrings at the tree-sitter positions of their symbols, bottom-up
+ * so earlier positions stay valid, then verifies that nothing but docstrings changed.
+ * Symbols that already carry a docstring are left alone.
+ *
+ * @param filePath The file's path, which decides the language
+ * @param content The file's current content
+ * @param symbols Documentation of the symbols to add docstrings for
+ * @param format Docstring style and indentation, see `docstringFormat`
+ * @returns The new content and which symbols got a docstring
+ * @throws DocstringVerificationError if the result differs in anything but docstrings
+ */
+export function spliceDocstrings(
+	filePath: string,
+	content: string,
+	symbols: SymbolDocumentation[],
+	format: DocstringFormat,
+): SplicedDocstrings {
+	const items = symbolItems(filePath, content);
+	const lines = content.split('\n');
+	const insertions: Insertion[] = [];
+	const skipped: string[] = [];
+	for (const symbol of symbols) {
+		const insertion = planInsertion(filePath, lines, items, symbol, format);
+		// Symbols sharing a line (`class A { m() {} }`) can't each get their own docstring
+		if (
+			!insertion ||
+			insertions.some(planned => planned.line === insertion.line)
+		) {
+			skipped.push(symbol.name);
+			continue;
+		}
+		insertions.push(insertion);
+	}
+
+	insertions.sort((a, b) => b.line - a.line);
+	for (const insertion of insertions) {
+		lines.splice(insertion.line, 0, ...insertion.text);
+	}
+	const updated = lines.join('\n');
+	verifyOnlyDocstringsChanged(filePath, content, updated);
+	return {
+		content: updated,
+		inserted: insertions.map(insertion => insertion.name).reverse(),
+		skipped,
+	};
+}
+
+/**
+ * Replaces the docstrings symbols already carry with newly rendered ones, at the same
+ * place and indentation, then verifies that nothing but docstrings changed
+ *
+ * @param filePath The file's path, which decides the language
+ * @param content The file's current content
+ * @param symbols Documentation of the symbols whose docstrings are replaced
+ * @param format Docstring style and indentation, see `docstringFormat`
+ * @returns The new content; `inserted` lists the symbols whose docstring was replaced
+ * and `skipped` those without one
+ * @throws DocstringVerificationError if the result differs in anything but docstrings
+ */
+export function replaceDocstrings(
+	filePath: string,
+	content: string,
+	symbols: SymbolDocumentation[],
+	format: DocstringFormat,
+): SplicedDocstrings {
+	const items = symbolItems(filePath, content);
+	const lines = content.split('\n');
+	const replacements: Array<{
+		name: string;
+		start: number;
+		end: number;
+		text: string[];
+	}> = [];
+	const skipped: string[] = [];
+	for (const symbol of symbols) {
+		const item = items.get(symbol.name);
+		const block = item && findDocstring(lines, item, filePath);
+		if (
+			!block ||
+			replacements.some(
+				planned => planned.start <= block.end && block.start <= planned.end,
+			)
+		) {
+			skipped.push(symbol.name);
+			continue;
+		}
+		replacements.push({
+			name: symbol.name,
+			start: block.start,
+			end: block.end,
+			text: renderDocstring(symbol, filePath, block.indent, format),
+		});
+	}
+
+	replacements.sort((a, b) => b.start - a.start);
+	for (const replacement of replacements) {
+		lines.splice(
+			replacement.start,
+			replacement.end - replacement.start + 1,
+			...replacement.text,
+		);
+	}
+	const updated = lines.join('\n');
+	verifyOnlyDocstringsChanged(filePath, content, updated);
+	return {
+		content: updated,
+		inserted: replacements.map(replacement => replacement.name).reverse(),
+		skipped,
+	};
+}
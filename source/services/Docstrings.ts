@@ -0,0 +1,418 @@
+import path from 'node:path';
+import ignore from 'ignore';
+import {SymbolDocumentation} from '../types/docs.js';
+import {getDocstringStyleConfig} from './ConfigManagement.js';
+import {DocstringStyle} from './ConfigSchema.js';
+import {CodeItem} from './treesitter.js';
+
+export interface DocstringPosition {
+	line: number; // 0-based index of the line the docstring is inserted before
+	indent: string;
+}
+
+export interface DocstringFormat {
+	style: DocstringStyle;
+	indentUnit: string; // One level of the file's indentation, for nested docstring lines
+}
+
+const PYTHON_STYLES: DocstringStyle[] = ['google', 'numpy', 'sphinx'];
+
+export function isPythonFile(filePath: string): boolean {
+	return path.extname(filePath).toLowerCase() === '.py';
+}
+
+// TypeScript carries its own types, so only plain JavaScript gets JSDoc `{type}`s
+function isJavaScriptFile(filePath: string): boolean {
+	return ['.js', '.jsx', '.mjs', '.cjs'].includes(
+		path.extname(filePath).toLowerCase(),
+	);
+}
+
+/**
+ * Index of the line that ends a Python signature (the one ending in ':'), or -1 when
+ * the definition is a one-liner with no body line to hold a docstring
+ */
+function pythonSignatureEnd(lines: string[], item: CodeItem): number {
+	let end = item.startLine - 1;
+	while (end < item.endLine - 1 && !lines[end]?.trimEnd().endsWith(':')) {
+		end++;
+	}
+	return end >= item.endLine - 1 ? -1 : end;
+}
+
+/**
+ * Whether the symbol already carries a docstring: a `/** *\/` block right above it,
+ * or a string literal opening a Python body.
+ */
+export function hasDocstring(
+	lines: string[],
+	item: CodeItem,
+	filePath: string,
+): boolean {
+	if (!isPythonFile(filePath)) {
+		return (lines[item.startLine - 2] ?? '').trim().endsWith('*/');
+	}
+	const end = pythonSignatureEnd(lines, item);
+	if (end === -1) return false;
+	const next = lines.slice(end + 1, item.endLine).find(line => line.trim());
+	return next !== undefined && /^\s*[rRuUbBfF]{0,2}("""|''')/.test(next);
+}
+
+export interface DocstringBlock {
+	start: number; // 0-based index of the first line
+	end: number; // 0-based index of the last line, inclusive
+	indent: string;
+	text: string[]; // Content without comment markers, quotes or indentation
+}
+
+/**
+ * Locates the docstring the symbol carries (see `hasDocstring`) and extracts its text
+ *
+ * @returns The docstring's lines and content, or undefined when there is none
+ */
+export function findDocstring(
+	lines: string[],
+	item: CodeItem,
+	filePath: string,
+): DocstringBlock | undefined {
+	if (!hasDocstring(lines, item, filePath)) return undefined;
+	if (!isPythonFile(filePath)) {
+		const end = item.startLine - 2;
+		let start = end;
+		while (start > 0 && !lines[start]!.includes('/*')) start--;
+		return {
+			start,
+			end,
+			indent: lines[start]!.match(/^\s*/)?.[0] ?? '',
+			text: lines.slice(start, end + 1).map(line =>
+				line
+					.trim()
+					.replace(/^\/\*\*?/, '')
+					.replace(/\*\/$/, '')
+					.replace(/^\s*\* ?/, '')
+					.trim(),
+			),
+		};
+	}
+
+	let start = pythonSignatureEnd(lines, item) + 1;
+	while (!lines[start]!.trim()) start++;
+	const opening = lines[start]!.match(/^(\s*)[rRuUbBfF]{0,2}("""|''')/)!;
+	const quote = opening[2]!;
+	let end = start;
+	if (!lines[start]!.slice(opening[0].length).includes(quote)) {
+		end++;
+		while (end < item.endLine - 1 && !lines[end]!.includes(quote)) end++;
+	}
+	const raw = lines.slice(start, end + 1);
+	raw[0] = raw[0]!.slice(opening[0].length);
+	raw[raw.length - 1] = raw[raw.length - 1]!.replace(
+		new RegExp(`${quote}\\s*$`),
+		'',
+	);
+	const indent = opening[1]!;
+	return {
+		start,
+		end,
+		indent,
+		text: raw.map((line, index) =>
+			(index > 0 && line.startsWith(indent)
+				? line.slice(indent.length)
+				: line
+			).trimEnd(),
+		),
+	};
+}
+
+/**
+ * Where a docstring for the symbol goes: above the declaration for JS/TS, as the first
+ * body line for Python. Undefined for Python one-liners.
+ */
+export function docstringPosition(
+	lines: string[],
+	item: CodeItem,
+	filePath: string,
+): DocstringPosition | undefined {
+	const header = lines[item.startLine - 1] ?? '';
+	const indent = header.match(/^\s*/)?.[0] ?? '';
+	if (!isPythonFile(filePath)) return {line: item.startLine - 1, indent};
+
+	const end = pythonSignatureEnd(lines, item);
+	if (end === -1) return undefined;
+	const next = lines.slice(end + 1, item.endLine).find(line => line.trim());
+	return {
+		line: end + 1,
+		indent: next?.match(/^\s*/)?.[0] || `${indent}${detectIndentUnit(lines)}`,
+	};
+}
+
+/**
+ * One level of the file's indentation: a tab when most indented lines start with one,
+ * otherwise the narrowest space indentation found (ignoring block comment lines).
+ * Four spaces when nothing is indented.
+ */
+export function detectIndentUnit(lines: string[]): string {
+	let tabs = 0;
+	let spaces = 0;
+	let narrowest = Infinity;
+	for (const line of lines) {
+		const indent = line.match(/^[ \t]+/)?.[0];
+		if (!indent || !line.trim() || line.trimStart().startsWith('*')) continue;
+		if (indent.startsWith('\t')) {
+			tabs++;
+		} else {
+			spaces++;
+			narrowest = Math.min(narrowest, indent.length);
+		}
+	}
+	if (tabs > spaces) return '\t';
+	return spaces > 0 ? ' '.repeat(narrowest) : '    ';
+}
+
+function styleSuitsFile(style: DocstringStyle, filePath: string): boolean {
+	return PYTHON_STYLES.includes(style) === isPythonFile(filePath);
+}
+
+/**
+ * The docstring style of a file: the last matching `docstring_styles` glob, else the
+ * project's `docstring_style` for the file's language, else JSDoc or Google style.
+ * Styles of another language are skipped, so a Python style never applies to
+ * TypeScript.
+ *
+ * @param filePath Absolute path of the file
+ * @param projectRoot Root the globs are relative to
+ */
+export function resolveDocstringStyle(
+	filePath: string,
+	projectRoot = process.cwd(),
+): DocstringStyle {
+	const config = getDocstringStyleConfig();
+	let style =
+		config.styles.find(candidate => styleSuitsFile(candidate, filePath)) ??
+		(isPythonFile(filePath) ? 'google' : 'jsdoc');
+	const relativePath = path.relative(projectRoot, filePath).replace(/\\/g, '/');
+	if (
+		!relativePath ||
+		relativePath.startsWith('..') ||
+		path.isAbsolute(relativePath)
+	) {
+		return style; // Outside the project, where no glob can match
+	}
+	for (const override of config.overrides) {
+		if (
+			styleSuitsFile(override.style, filePath) &&
+			ignore().add(override.pattern).ignores(relativePath)
+		) {
+			style = override.style;
+		}
+	}
+	return style;
+}
+
+/**
+ * The style and indentation docstrings of a file are rendered with
+ *
+ * @param filePath Absolute path of the file
+ * @param lines The file's lines
+ * @param projectRoot Root the style globs are relative to
+ */
+export function docstringFormat(
+	filePath: string,
+	lines: string[],
+	projectRoot = process.cwd(),
+): DocstringFormat {
+	return {
+		style: resolveDocstringStyle(filePath, projectRoot),
+		indentUnit: detectIndentUnit(lines),
+	};
+}
+
+const splitLines = (text: string | undefined) => (text ? text.split('\n') : []);
+
+/**
+ * Docstring body in one of the Python styles, without quotes or indentation
+ */
+function pythonBody(
+	symbol: SymbolDocumentation,
+	style: DocstringStyle,
+	unit: string,
+): string[] {
+	const body = splitLines(symbol.description);
+	if (symbol.remarks) body.push('', ...splitLines(symbol.remarks));
+	const section = (title: string, entries: string[]) => {
+		if (entries.length === 0) return;
+		if (style === 'numpy') {
+			body.push('', title, '-'.repeat(title.length), ...entries);
+		} else {
+			body.push(
+				'',
+				`${title}:`,
+				...entries.map(entry => (entry ? `${unit}${entry}` : '')),
+			);
+		}
+	};
+
+	if (style === 'sphinx') {
+		if (symbol.example) {
+			body.push(
+				'',
+				'Example::',
+				'',
+				...splitLines(symbol.example).map(line =>
+					line ? `${unit}${line}` : '',
+				),
+			);
+		}
+		const fields = [
+			...symbol.params.flatMap(param => [
+				`:param ${param.name}: ${param.description}`,
+				...(param.type ? [`:type ${param.name}: ${param.type}`] : []),
+			]),
+			...(symbol.returns
+				? [
+						`:returns: ${symbol.returns.description}`,
+						...(symbol.returns.type ? [`:rtype: ${symbol.returns.type}`] : []),
+				  ]
+				: []),
+			...symbol.throws.map(name => `:raises ${name}:`),
+		];
+		if (fields.length > 0) body.push('', ...fields);
+		return body;
+	}
+
+	if (style === 'numpy') {
+		section(
+			'Parameters',
+			symbol.params.flatMap(param => [
+				param.type ? `${param.name} : ${param.type}` : param.name,
+				`${unit}${param.description}`,
+			]),
+		);
+		if (symbol.returns) {
+			section(
+				'Returns',
+				symbol.returns.type
+					? [symbol.returns.type, `${unit}${symbol.returns.description}`]
+					: [symbol.returns.description],
+			);
+		}
+		section('Raises', symbol.throws);
+		section('Examples', splitLines(symbol.example));
+		return body;
+	}
+
+	section(
+		'Args',
+		symbol.params.map(
+			param =>
+				`${param.name}${param.type ? ` (${param.type})` : ''}: ${
+					param.description
+				}`,
+		),
+	);
+	if (symbol.returns) section('Returns', [symbol.returns.description]);
+	section('Raises', symbol.throws);
+	section('Example', splitLines(symbol.example));
+	return body;
+}
+
+/**
+ * Docstring body in TSDoc or JSDoc, without comment markers or indentation
+ */
+function jsDocBody(
+	symbol: SymbolDocumentation,
+	style: DocstringStyle,
+	filePath: string,
+): string[] {
+	const body = splitLines(symbol.description);
+	const tags: string[] = [];
+	if (style === 'tsdoc') {
+		if (symbol.remarks)
+			body.push('', '@remarks', ...splitLines(symbol.remarks));
+		tags.push(
+			...symbol.params.map(
+				param => `@param ${param.name} - ${param.description}`,
+			),
+			...(symbol.returns ? [`@returns ${symbol.returns.description}`] : []),
+			...symbol.throws.map(name => `@throws ${name}`),
+		);
+		if (symbol.example) {
+			const language = isJavaScriptFile(filePath) ? 'js' : 'ts';
+			tags.push(
+				'@example',
+				`\`\`\`${language}`,
+				...splitLines(symbol.example),
+				'```',
+			);
+		}
+	} else {
+		if (symbol.remarks) body.push('', ...splitLines(symbol.remarks));
+		const typed = isJavaScriptFile(filePath);
+		tags.push(
+			...symbol.params.map(
+				param =>
+					`@param ${typed && param.type ? `{${param.type}} ` : ''}${
+						param.name
+					} ${param.description}`,
+			),
+			...(symbol.returns
+				? [
+						`@returns ${
+							typed && symbol.returns.type ? `{${symbol.returns.type}} ` : ''
+						}${symbol.returns.description}`,
+				  ]
+				: []),
+			...symbol.throws.map(name => `@throws ${name}`),
+		);
+		if (symbol.example) tags.push('@example', ...splitLines(symbol.example));
+	}
+	if (tags.length > 0) body.push('', ...tags);
+	return body;
+}
+
+/**
+ * Renders symbol documentation in the file's docstring style: a TSDoc or JSDoc block,
+ * or a Google, NumPy or Sphinx Python docstring
+ *
+ * @param symbol The generated documentation of the symbol
+ * @param filePath The symbol's file, which decides the docstring language
+ * @param indent Indentation of every rendered line
+ * @param format Style and indentation unit, see `docstringFormat`
+ * @returns The docstring lines
+ */
+export function renderDocstring(
+	symbol: SymbolDocumentation,
+	filePath: string,
+	indent: string,
+	format: DocstringFormat,
+): string[] {
+	const style = styleSuitsFile(format.style, filePath)
+		? format.style
+		: isPythonFile(filePath)
+		? 'google'
+		: 'jsdoc';
+	if (isPythonFile(filePath)) {
+		// The text comes from a model; it must not be able to end the docstring early
+		const escaped = pythonBody(symbol, style, format.indentUnit).map(line =>
+			line.replace(/\\/g, '\\\\').replace(/"""/g, '\\"\\"\\"'),
+		);
+		if (escaped.length === 1) {
+			return [`${indent}"""${escaped[0]!.replace(/"$/, '\\"')}"""`];
+		}
+		return [
+			`${indent}"""${escaped[0]}`,
+			...escaped.slice(1).map(line => (line ? `${indent}${line}` : '')),
+			`${indent}"""`,
+		];
+	}
+
+	const escaped = jsDocBody(symbol, style, filePath).map(line =>
+		line.replace(/\*\//g, '*\\/'),
+	);
+	if (escaped.length === 1) return [`${indent}/** ${escaped[0]} */`];
+	return [
+		`${indent}/**`,
+		...escaped.map(line => `${indent} *${line ? ` ${line}` : ''}`),
+		`${indent} */`,
+	];
+}
@@ -0,0 +1,128 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {DocManager} from './DocManager.js';
+import {generateHash} from './treesitter.js';
+
+export interface StaleFile {
+	path: string;
+	recordedHash?: string; // Absent for documentation older than content hashing
+	currentHash: string;
+}
+
+export interface FreshnessReport {
+	checkedAt: string;
+	workspaceFiles: number;
+	documented: number;
+	fresh: number;
+	stale: StaleFile[]; // Documented, but the content changed since
+	missing: string[]; // Workspace files without documentation
+	orphaned: string[]; // Documentation of files that were deleted or are now ignored
+	percentages: {stale: number; missing: number; orphaned: number};
+}
+
+export interface FreshnessThresholds {
+	maxStale: number; // Percent of documented workspace files
+	maxMissing: number; // Percent of workspace files
+	maxOrphaned: number; // Percent of documentation entries
+}
+
+const percentage = (count: number, total: number) =>
+	total === 0 ? 0 : Math.round((count / total) * 10000) / 100;
+
+/**
+ * Compares every documented file's current content hash with the one recorded when it
+ * was documented. Only reads files and docs.json; never calls a model.
+ *
+ * @param docManager DocManager of the workspace
+ * @returns Stale, missing and orphaned documentation with their percentages
+ */
+export async function checkFreshness(
+	docManager: DocManager,
+): Promise<FreshnessReport> {
+	const workspaceFiles = await docManager.listWorkspaceFiles();
+	const workspaceSet = new Set(workspaceFiles);
+	const documented = docManager.getDocumentedPaths();
+	const documentedSet = new Set(documented);
+
+	const stale: StaleFile[] = [];
+	const orphaned: string[] = [];
+	let fresh = 0;
+	for (const relativePath of documented) {
+		if (!workspaceSet.has(relativePath)) {
+			orphaned.push(relativePath);
+			continue;
+		}
+		let content: string;
+		try {
+			content = fs.readFileSync(
+				path.join(docManager.workspacePath, relativePath),
+				'utf-8',
+			);
+		} catch (error) {
+			orphaned.push(relativePath);
+			continue;
+		}
+		const currentHash = generateHash(content);
+		const recordedHash = docManager.getDocumentation(relativePath)?.contentHash;
+		if (recordedHash === currentHash) {
+			fresh++;
+		} else {
+			stale.push({
+				path: relativePath,
+				...(recordedHash && {recordedHash}),
+				currentHash,
+			});
+		}
+	}
+	const missing = workspaceFiles
+		.filter(file => !documentedSet.has(file))
+		.sort();
+	const documentedInWorkspace = documented.length - orphaned.length;
+
+	return {
+		checkedAt: new Date().toISOString(),
+		workspaceFiles: workspaceFiles.length,
+		documented: documented.length,
+		fresh,
+		stale,
+		missing,
+		orphaned,
+		percentages: {
+			stale: percentage(stale.length, documentedInWorkspace),
+			missing: percentage(missing.length, workspaceFiles.length),
+			orphaned: percentage(orphaned.length, documented.length),
+		},
+	};
+}
+
+/**
+ * Lists the thresholds a report exceeds; empty when the check passes
+ */
+export function thresholdViolations(
+	report: FreshnessReport,
+	thresholds: FreshnessThresholds,
+): string[] {
+	const checks: Array<[string, number, number]> = [
+		[
+			'of documented files are stale',
+			report.percentages.stale,
+			thresholds.maxStale,
+		],
+		[
+			'of files are undocumented',
+			report.percentages.missing,
+			thresholds.maxMissing,
+		],
+		[
+			'of documentation entries are orphaned',
+			report.percentages.orphaned,
+			thresholds.maxOrphaned,
+		],
+	];
+	return checks
+		.filter(([, actual, limit]) => actual > limit)
+		.map(
+			([description, actual, limit]) =>
+				`${actual}% ${description} (limit ${limit}%)`,
+		);
+}
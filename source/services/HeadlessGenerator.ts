@@ -0,0 +1,247 @@
+import path from 'node:path';
+import {promisify} from 'node:util';
+import pkg from 'glob';
+import {DocManager} from './DocManager.js';
+
+const {glob} = pkg;
+const globPromise = promisify(glob);
+
+export const OUTPUT_FORMATS = ['html', 'md', 'json'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const PROGRESS_FORMATS = ['plain', 'ndjson'] as const;
+export type ProgressFormat = (typeof PROGRESS_FORMATS)[number];
+
+export interface HeadlessOptions {
+	all: boolean; // Every workspace file instead of the git changes
+	since?: string; // Files changed since this git ref
+	files?: string; // Glob selecting files, relative to the workspace
+	force: boolean; // Regenerate files whose documentation is up to date
+	concurrency: number;
+	format: OutputFormat;
+	outputDir?: string; // For the Markdown export
+	dryRun: boolean;
+}
+
+export type ProgressEvent =
+	| {type: 'start'; total: number; upToDate: number; dryRun: boolean}
+	| {type: 'plan'; path: string}
+	| {
+			type: 'file';
+			path: string;
+			status: 'documented' | 'skipped' | 'failed';
+			error?: string;
+			durationMs: number;
+			index: number;
+			total: number;
+	  }
+	| {type: 'rollups'; status: 'updated' | 'failed'; error?: string}
+	| {type: 'output'; format: OutputFormat; path: string; files?: number}
+	| {
+			type: 'done';
+			documented: number;
+			skipped: number;
+			failed: number;
+			upToDate: number;
+			rollupsFailed: boolean;
+	  };
+
+export interface HeadlessResult {
+	documented: number;
+	skipped: number; // Deleted or empty by the time they were reached
+	failed: number;
+	upToDate: number;
+	rollupsFailed: boolean; // Some directory overviews couldn't be updated
+}
+
+const plural = (count: number, noun: string) =>
+	`${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Formats progress events as NDJSON or as human-readable lines
+ */
+export function formatProgress(
+	event: ProgressEvent,
+	format: ProgressFormat,
+): string {
+	if (format === 'ndjson') return JSON.stringify(event);
+	switch (event.type) {
+		case 'start':
+			return `${event.dryRun ? 'Would document' : 'Documenting'} ${plural(
+				event.total,
+				'file',
+			)} (${event.upToDate} up to date)`;
+		case 'plan':
+			return `  ${event.path}`;
+		case 'file':
+			return `[${event.index}/${event.total}] ${event.status} ${event.path}${
+				event.error
+					? `: ${event.error}`
+					: ` (${(event.durationMs / 1000).toFixed(1)}s)`
+			}`;
+		case 'rollups':
+			return event.status === 'updated'
+				? 'Updated directory overviews'
+				: `Directory overviews failed: ${event.error}`;
+		case 'output':
+			return `Wrote ${
+				event.format === 'html'
+					? 'HTML site'
+					: event.format === 'md'
+					? `${plural(event.files ?? 0, 'Markdown file')}`
+					: 'docs.json'
+			} to ${event.path}`;
+		case 'done':
+			return `Done: ${event.documented} documented, ${event.skipped} skipped, ${event.failed} failed, ${event.upToDate} up to date`;
+	}
+}
+
+/**
+ * Picks the files a run covers: git changes by default, every workspace file with
+ * `all`, or changes since a ref, narrowed by the `files` glob. Ignored files are dropped.
+ *
+ * @throws If `since` names an unknown ref
+ */
+async function selectFiles(
+	docManager: DocManager,
+	options: HeadlessOptions,
+): Promise<string[]> {
+	const workspaceFiles = new Set(await docManager.listWorkspaceFiles());
+	let candidates: string[];
+	if (options.since) {
+		candidates = await docManager.getFilesChangedSince(options.since);
+	} else if (options.all || options.files) {
+		candidates = [...workspaceFiles];
+	} else {
+		candidates = await docManager.getChangedFiles();
+	}
+	let selected = candidates.filter(file => workspaceFiles.has(file));
+
+	if (options.files) {
+		const matches = new Set(
+			(
+				await globPromise(options.files, {
+					cwd: docManager.workspacePath,
+					nodir: true,
+				})
+			).map(file => path.posix.normalize(file.replace(/\\/g, '/'))),
+		);
+		selected = selected.filter(file => matches.has(file));
+	}
+	return selected.sort();
+}
+
+/**
+ * Documents files without the TUI: selects them, generates their documentation with a
+ * bounded number of files in flight, rolls up directory overviews and writes the output
+ * format, reporting every step through `report`. Failures are recorded as dead letters
+ * and counted rather than aborting the run.
+ *
+ * @param docManager DocManager of the workspace
+ * @param options What to document and how
+ * @param report Receives every progress event
+ * @returns Counts of documented, skipped, failed and up-to-date files, and whether
+ * the directory overviews failed
+ * @throws If the output format can't be written
+ */
+export async function runHeadlessGeneration(
+	docManager: DocManager,
+	options: HeadlessOptions,
+	report: (event: ProgressEvent) => void,
+): Promise<HeadlessResult> {
+	const selected = await selectFiles(docManager, options);
+	const pending = options.force
+		? selected
+		: selected.filter(file => docManager.needsDocumentation(file));
+	const result: HeadlessResult = {
+		documented: 0,
+		skipped: 0,
+		failed: 0,
+		upToDate: selected.length - pending.length,
+		rollupsFailed: false,
+	};
+
+	report({
+		type: 'start',
+		total: pending.length,
+		upToDate: result.upToDate,
+		dryRun: options.dryRun,
+	});
+	if (options.dryRun) {
+		for (const file of pending) report({type: 'plan', path: file});
+		report({type: 'done', ...result});
+		return result;
+	}
+
+	let next = 0;
+	let finished = 0;
+	const worker = async () => {
+		while (next < pending.length) {
+			const file = pending[next++]!;
+			const started = Date.now();
+			let status: 'documented' | 'skipped' | 'failed';
+			let error: string | undefined;
+			try {
+				status = (await docManager.documentFile(file))
+					? 'documented'
+					: 'skipped';
+			} catch (generationError) {
+				status = 'failed';
+				error =
+					generationError instanceof Error
+						? generationError.message
+						: String(generationError);
+			}
+			result[status]++;
+			report({
+				type: 'file',
+				path: file,
+				status,
+				...(error && {error}),
+				durationMs: Date.now() - started,
+				index: ++finished,
+				total: pending.length,
+			});
+		}
+	};
+	await Promise.all(
+		Array.from({length: Math.min(options.concurrency, pending.length)}, worker),
+	);
+
+	if (result.documented + result.skipped > 0) {
+		try {
+			await docManager.updateDirectoryRollups();
+			report({type: 'rollups', status: 'updated'});
+		} catch (error) {
+			result.rollupsFailed = true;
+			report({
+				type: 'rollups',
+				status: 'failed',
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	const {docsPath} = docManager;
+	if (options.format === 'html') {
+		await docManager.generateHtml();
+		report({type: 'output', format: 'html', path: path.join(docsPath, 'html')});
+	} else if (options.format === 'md') {
+		const exported = docManager.exportMarkdown(options.outputDir);
+		report({
+			type: 'output',
+			format: 'md',
+			path: exported.outputDir,
+			files: exported.files,
+		});
+	} else {
+		report({
+			type: 'output',
+			format: 'json',
+			path: path.join(docsPath, 'docs.json'),
+		});
+	}
+
+	report({type: 'done', ...result});
+	return result;
+}
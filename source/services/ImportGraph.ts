@@ -0,0 +1,100 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export interface ImportGraph {
+	imports: Map<string, string[]>; // File -> documented files it imports
+	importedBy: Map<string, string[]>; // File -> documented files importing it
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Resolves a file's relative imports (and Python imports) to documented files
+ *
+ * @param filePath Relative path of the importing file
+ * @param content The file's source
+ * @param known Relative paths of all documented files
+ */
+export function resolveImports(
+	filePath: string,
+	content: string,
+	known: Set<string>,
+): string[] {
+	const directory = path.posix.dirname(filePath);
+	const resolved = new Set<string>();
+	const tryCandidates = (candidates: string[]) => {
+		const match = candidates
+			.map(candidate => path.posix.normalize(candidate))
+			.find(candidate => known.has(candidate) && candidate !== filePath);
+		if (match) resolved.add(match);
+	};
+
+	if (path.posix.extname(filePath) === '.py') {
+		for (const match of content.matchAll(
+			/^[ \t]*from[ \t]+(\.*)([\w.]*)[ \t]+import[ \t]+\(?([\w \t,]+)|^[ \t]*import[ \t]+([\w.]+)/gm,
+		)) {
+			const [, dots = '', fromModule, names = '', importModule] = match;
+			const modulePath = (fromModule || importModule || '').replace(/\./g, '/');
+			const bases =
+				dots.length > 0
+					? [
+							path.posix.join(
+								directory,
+								...Array(dots.length - 1).fill('..'),
+								modulePath,
+							),
+					  ]
+					: [modulePath, path.posix.join(directory, modulePath)];
+			for (const base of bases) {
+				tryCandidates([`${base}.py`, `${base}/__init__.py`]);
+				// `from package import module` imports submodules
+				for (const name of names.split(/[\s,]+/).filter(Boolean)) {
+					tryCandidates([`${base}/${name}.py`]);
+				}
+			}
+		}
+		return [...resolved].sort();
+	}
+
+	for (const match of content.matchAll(
+		/(?:\bfrom\s+|\bimport\s*\(\s*|\brequire\(\s*|^\s*import\s+)['"](\.{1,2}\/[^'"]+)['"]/gm,
+	)) {
+		const base = path.posix.join(directory, match[1]!);
+		const withoutExtension = base.replace(/\.(m?js|cjs|jsx)$/, '');
+		tryCandidates([
+			base,
+			...SCRIPT_EXTENSIONS.map(extension => `${withoutExtension}${extension}`),
+			...SCRIPT_EXTENSIONS.map(extension => `${base}/index${extension}`),
+		]);
+	}
+	return [...resolved].sort();
+}
+
+/**
+ * Resolves the imports of every documented file, in both directions
+ *
+ * @param filePaths Relative paths of the documented files
+ * @param workspacePath Project root the sources are read from
+ */
+export function buildImportGraph(
+	filePaths: string[],
+	workspacePath: string,
+): ImportGraph {
+	const known = new Set(filePaths);
+	const imports = new Map<string, string[]>();
+	const importedBy = new Map<string, string[]>();
+	for (const filePath of filePaths) {
+		let content: string;
+		try {
+			content = fs.readFileSync(path.join(workspacePath, filePath), 'utf8');
+		} catch (error) {
+			continue; // Deleted since it was documented
+		}
+		const targets = resolveImports(filePath, content, known);
+		imports.set(filePath, targets);
+		for (const target of targets) {
+			importedBy.set(target, [...(importedBy.get(target) ?? []), filePath]);
+		}
+	}
+	return {imports, importedBy};
+}
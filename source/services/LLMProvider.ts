@@ -0,0 +1,109 @@
+import {LLMProvider, ModelSelection} from '../types/llm.js';
+import {
+	CassetteConfig,
+	ProviderConfig,
+	getCassetteConfig,
+	getProviderConfig,
+} from './ConfigManagement.js';
+import {
+	GOOGLE_DEFAULT_MODELS,
+	GoogleProvider,
+} from './providers/GoogleProvider.js';
+import {
+	OPENAI_DEFAULT_MODELS,
+	OpenAICompatibleProvider,
+} from './providers/OpenAICompatibleProvider.js';
+import {FAKE_MODELS, FakeProvider} from './providers/FakeProvider.js';
+import {CassetteProvider} from './providers/CassetteProvider.js';
+
+/**
+ * Fills in the provider's default model for every task the config leaves unset
+ */
+function resolveModels(
+	defaults: ModelSelection,
+	configured: ProviderConfig['models'],
+): ModelSelection {
+	return {
+		summary: configured.summary || defaults.summary,
+		docstring: configured.docstring || defaults.docstring,
+		chat: configured.chat || defaults.chat,
+	};
+}
+
+/**
+ * Gets the models the configured provider will use for each task
+ */
+export function getProviderModels(
+	config: ProviderConfig = getProviderConfig(),
+): ModelSelection {
+	switch (config.provider) {
+		case 'openai':
+			return resolveModels(OPENAI_DEFAULT_MODELS, config.models);
+		case 'fake':
+			return FAKE_MODELS;
+		case 'google':
+		default:
+			return resolveModels(GOOGLE_DEFAULT_MODELS, config.models);
+	}
+}
+
+/**
+ * Creates the LLM provider selected in the configuration, wrapped in a cassette
+ * recorder or player when record/replay is enabled
+ *
+ * @param config Provider settings, read from the catdoc configuration by default
+ * @param cassette Record/replay settings, null to call the provider directly
+ * @returns A provider for summaries, docstrings and chat
+ * @throws If the selected provider is missing required credentials
+ */
+export function createProvider(
+	config: ProviderConfig = getProviderConfig(),
+	cassette: CassetteConfig | null = getCassetteConfig(),
+): LLMProvider {
+	if (cassette) {
+		return new CassetteProvider(
+			cassette,
+			() => createBaseProvider(config),
+			config.provider,
+			getProviderModels(config),
+		);
+	}
+	return createBaseProvider(config);
+}
+
+function createBaseProvider(config: ProviderConfig): LLMProvider {
+	const models = getProviderModels(config);
+	switch (config.provider) {
+		case 'openai':
+			return new OpenAICompatibleProvider(
+				config.baseUrl,
+				config.apiKey,
+				models,
+			);
+		case 'fake':
+			return new FakeProvider();
+		case 'google':
+		default:
+			return new GoogleProvider(config.apiKey, models);
+	}
+}
+
+/**
+ * Checks whether the configured provider has what it needs to make requests
+ */
+export function isProviderConfigured(
+	config: ProviderConfig = getProviderConfig(),
+	cassette: CassetteConfig | null = getCassetteConfig(),
+): boolean {
+	if (cassette?.mode === 'replay') {
+		return true;
+	}
+	switch (config.provider) {
+		case 'openai':
+		case 'fake':
+			return true;
+		case 'google':
+		default:
+			return Boolean(config.apiKey);
+	}
+}
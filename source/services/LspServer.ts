@@ -0,0 +1,520 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {fileURLToPath} from 'node:url';
+import {DocManager} from './DocManager.js';
+import {createDebugLog} from './DebugLog.js';
+import {collectSymbolSources, SymbolSource} from './StructuredDocs.js';
+import {
+	docstringFormat,
+	docstringPosition,
+	hasDocstring,
+	renderDocstring,
+} from './Docstrings.js';
+import {generateHash, getFileStructure} from './treesitter.js';
+import {FileDocumentation, SymbolDocumentation} from '../types/docs.js';
+
+const debugLog = createDebugLog('LspServer');
+
+const REGENERATE_COMMAND = 'catdoc.regenerate';
+
+// JSON-RPC error codes
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const SERVER_NOT_INITIALIZED = -32002;
+
+interface Message {
+	jsonrpc: '2.0';
+	id?: number | string | null;
+	method?: string;
+	params?: unknown;
+	result?: unknown;
+	error?: unknown;
+}
+
+interface Position {
+	line: number;
+	character: number;
+}
+
+interface Range {
+	start: Position;
+	end: Position;
+}
+
+/**
+ * A JSON-RPC error with its protocol error code
+ */
+class RpcError extends Error {
+	constructor(readonly code: number, message: string) {
+		super(message);
+		this.name = 'RpcError';
+	}
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads `textDocument.uri`, which every document request and notification carries
+ */
+function documentUri(params: Record<string, unknown>): string {
+	const textDocument = params['textDocument'];
+	if (!isObject(textDocument) || typeof textDocument['uri'] !== 'string') {
+		throw new RpcError(INVALID_PARAMS, '"textDocument.uri" must be a string');
+	}
+	return textDocument['uri'];
+}
+
+function readPosition(value: unknown, name: string): Position {
+	if (
+		!isObject(value) ||
+		!Number.isInteger(value['line']) ||
+		!Number.isInteger(value['character']) ||
+		(value['line'] as number) < 0
+	) {
+		throw new RpcError(INVALID_PARAMS, `"${name}" must be a position`);
+	}
+	return {
+		line: value['line'] as number,
+		character: value['character'] as number,
+	};
+}
+
+function readRange(value: unknown, name: string): Range {
+	if (!isObject(value)) {
+		throw new RpcError(INVALID_PARAMS, `"${name}" must be a range`);
+	}
+	return {
+		start: readPosition(value['start'], `${name}.start`),
+		end: readPosition(value['end'], `${name}.end`),
+	};
+}
+
+/**
+ * The parsed state of one document: its symbols with their own-source hashes
+ */
+interface DocumentState {
+	filePath: string; // Absolute path
+	lines: string[];
+	contentHash: string;
+	symbols: SymbolSource[];
+	doc: FileDocumentation | undefined;
+}
+
+/**
+ * Language server over stdio answering from the generated documentation:
+ * hovers show symbol and file docs, code lenses flag stale summaries and regenerate
+ * them, and a code action inserts a docstring rendered from a symbol's docs.
+ * Buffers are synced in full; positions map to symbols through tree-sitter items.
+ */
+export class LspServer {
+	private documents = new Map<string, string>(); // Open buffers keyed by URI
+	private output: NodeJS.WritableStream = process.stdout;
+	private initialized = false;
+	private shuttingDown = false;
+	private codeLensRefresh = false;
+	private nextRequestId = 1;
+	private readonly onUpdate = () => {
+		// Stale lenses may have become fresh
+		if (this.codeLensRefresh) {
+			this.send({
+				jsonrpc: '2.0',
+				id: this.nextRequestId++,
+				method: 'workspace/codeLens/refresh',
+			});
+		}
+	};
+
+	constructor(private docManager: DocManager) {}
+
+	/**
+	 * Serves requests until the client sends `exit` or closes the input stream.
+	 *
+	 * @returns Whether the client shut the server down properly before exiting
+	 */
+	run(
+		input: NodeJS.ReadableStream = process.stdin,
+		output: NodeJS.WritableStream = process.stdout,
+	): Promise<boolean> {
+		this.output = output;
+		this.docManager.on('updated', this.onUpdate);
+		return new Promise(resolve => {
+			let buffer = Buffer.alloc(0);
+			const finish = () => {
+				this.docManager.off('updated', this.onUpdate);
+				input.off('data', onData);
+				resolve(this.shuttingDown);
+			};
+			const onData = (chunk: Buffer) => {
+				buffer = Buffer.concat([buffer, chunk]);
+				for (;;) {
+					const headerEnd = buffer.indexOf('\r\n\r\n');
+					if (headerEnd === -1) return;
+					const length = Number(
+						buffer
+							.subarray(0, headerEnd)
+							.toString('ascii')
+							.match(/Content-Length:\s*(\d+)/i)?.[1],
+					);
+					if (!Number.isFinite(length)) {
+						// Unreadable header: drop it and resynchronize on the next one
+						buffer = buffer.subarray(headerEnd + 4);
+						continue;
+					}
+					const bodyStart = headerEnd + 4;
+					if (buffer.length < bodyStart + length) return;
+					const body = buffer.subarray(bodyStart, bodyStart + length);
+					buffer = buffer.subarray(bodyStart + length);
+					let message: Message;
+					try {
+						message = JSON.parse(body.toString('utf8'));
+					} catch (error) {
+						debugLog(`Unparsable message: ${error}`);
+						continue;
+					}
+					if (!isObject(message)) {
+						debugLog('Ignoring a message that is not an object');
+						continue;
+					}
+					if (message.method === 'exit') {
+						finish();
+						return;
+					}
+					this.handle(message);
+				}
+			};
+			input.on('data', onData);
+			input.once('end', finish);
+		});
+	}
+
+	private send(message: Message) {
+		const body = JSON.stringify(message);
+		this.output.write(
+			`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`,
+		);
+	}
+
+	private async handle(message: Message) {
+		// Responses to our own requests (code lens refreshes) need no handling
+		if (typeof message.method !== 'string') return;
+		const isRequest = message.id !== undefined && message.id !== null;
+		try {
+			if (message.params !== undefined && !isObject(message.params)) {
+				throw new RpcError(INVALID_PARAMS, 'Params must be an object');
+			}
+			const result = await this.dispatch(message.method, message.params ?? {});
+			if (isRequest) this.send({jsonrpc: '2.0', id: message.id, result});
+		} catch (error) {
+			debugLog(`Error handling ${message.method}: ${error}`);
+			if (!isRequest) return;
+			this.send({
+				jsonrpc: '2.0',
+				id: message.id,
+				error:
+					error instanceof RpcError
+						? {code: error.code, message: error.message}
+						: {code: INTERNAL_ERROR, message: String(error)},
+			});
+		}
+	}
+
+	private async dispatch(
+		method: string,
+		params: Record<string, unknown>,
+	): Promise<unknown> {
+		if (method === 'initialize') {
+			const capabilities = params['capabilities'];
+			const workspace = isObject(capabilities) && capabilities['workspace'];
+			const codeLens = isObject(workspace) && workspace['codeLens'];
+			this.initialized = true;
+			this.codeLensRefresh =
+				isObject(codeLens) && codeLens['refreshSupport'] === true;
+			return {
+				capabilities: {
+					textDocumentSync: {openClose: true, change: 1}, // Full sync
+					hoverProvider: true,
+					codeLensProvider: {resolveProvider: false},
+					codeActionProvider: {codeActionKinds: ['refactor.rewrite']},
+					executeCommandProvider: {commands: [REGENERATE_COMMAND]},
+				},
+				serverInfo: {name: 'catdoc'},
+			};
+		}
+		if (!this.initialized) {
+			throw new RpcError(SERVER_NOT_INITIALIZED, 'Server not initialized');
+		}
+
+		switch (method) {
+			case 'initialized':
+				return null;
+			case 'shutdown':
+				this.shuttingDown = true;
+				return null;
+			case 'textDocument/didOpen': {
+				const uri = documentUri(params);
+				const text = (params['textDocument'] as Record<string, unknown>)[
+					'text'
+				];
+				if (typeof text !== 'string') {
+					throw new RpcError(
+						INVALID_PARAMS,
+						'"textDocument.text" must be a string',
+					);
+				}
+				this.documents.set(uri, text);
+				return null;
+			}
+			case 'textDocument/didChange': {
+				const uri = documentUri(params);
+				// Full sync: the last change holds the whole buffer
+				const changes = params['contentChanges'];
+				const change = Array.isArray(changes) ? changes.at(-1) : undefined;
+				if (isObject(change) && typeof change['text'] === 'string') {
+					this.documents.set(uri, change['text']);
+				}
+				return null;
+			}
+			case 'textDocument/didClose':
+				this.documents.delete(documentUri(params));
+				return null;
+			case 'textDocument/hover':
+				return this.hover(
+					documentUri(params),
+					readPosition(params['position'], 'position'),
+				);
+			case 'textDocument/codeLens':
+				return this.codeLenses(documentUri(params));
+			case 'textDocument/codeAction':
+				return this.codeActions(
+					documentUri(params),
+					readRange(params['range'], 'range'),
+				);
+			case 'workspace/executeCommand': {
+				const args = params['arguments'] ?? [];
+				if (!Array.isArray(args)) {
+					throw new RpcError(INVALID_PARAMS, '"arguments" must be an array');
+				}
+				return this.executeCommand(params['command'], args);
+			}
+			default:
+				if (method.startsWith('$/') || method.startsWith('textDocument/did')) {
+					return null; // Optional notifications we don't act on
+				}
+				throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+		}
+	}
+
+	/**
+	 * Parses the open buffer (or the file on disk) of a document inside the workspace
+	 */
+	private documentState(uri: string): DocumentState | undefined {
+		let filePath: string;
+		try {
+			filePath = fileURLToPath(uri);
+		} catch (error) {
+			return undefined; // Not a file: URI
+		}
+		const workspace = path.resolve(this.docManager.workspacePath);
+		if (!filePath.startsWith(workspace + path.sep)) return undefined;
+
+		let content = this.documents.get(uri);
+		if (content === undefined) {
+			try {
+				content = fs.readFileSync(filePath, 'utf8');
+			} catch (error) {
+				return undefined;
+			}
+		}
+		const items = getFileStructure(filePath, content)?.items ?? [];
+		return {
+			filePath,
+			lines: content.split('\n'),
+			contentHash: generateHash(content),
+			symbols: collectSymbolSources(items, content),
+			doc: this.docManager.getDocumentation(filePath),
+		};
+	}
+
+	private isDocumentable(filePath: string): boolean {
+		return this.docManager.isDocumentable(
+			path.relative(this.docManager.workspacePath, filePath),
+		);
+	}
+
+	/**
+	 * The innermost symbol whose lines contain the 0-based line
+	 */
+	private symbolAt(state: DocumentState, line: number) {
+		return state.symbols
+			.filter(
+				symbol =>
+					line + 1 >= symbol.item.startLine && line + 1 <= symbol.item.endLine,
+			)
+			.sort(
+				(a, b) =>
+					a.item.endLine -
+					a.item.startLine -
+					(b.item.endLine - b.item.startLine),
+			)[0];
+	}
+
+	private hover(uri: string, position: Position) {
+		const state = this.documentState(uri);
+		if (!state?.doc) return null;
+		const symbol = this.symbolAt(state, position.line);
+		const symbolDoc = symbol && state.doc.symbols?.[symbol.name];
+
+		let value: string;
+		let range: Range | undefined;
+		if (symbol && symbolDoc) {
+			value = renderSymbolHover(symbolDoc);
+			if (symbolDoc.hash !== symbol.hash) {
+				value += '\n\n*catdoc: this symbol changed since it was documented*';
+			}
+			range = {
+				start: {line: symbol.item.startLine - 1, character: 0},
+				end: {line: symbol.item.endLine, character: 0},
+			};
+		} else if (position.line === 0 || !symbol) {
+			// File docs on the first line and between symbols
+			value = `**${path.posix.basename(state.doc.path)}**\n\n${
+				state.doc.structured?.purpose ?? state.doc.summary
+			}`;
+			if (state.doc.contentHash !== state.contentHash) {
+				value += '\n\n*catdoc: the file changed since it was documented*';
+			}
+		} else {
+			return null;
+		}
+		return {contents: {kind: 'markdown', value}, ...(range && {range})};
+	}
+
+	private codeLenses(uri: string) {
+		const state = this.documentState(uri);
+		if (!state) return [];
+		const lens = (line: number, title: string) => ({
+			range: {
+				start: {line, character: 0},
+				end: {line, character: 0},
+			},
+			command: {title, command: REGENERATE_COMMAND, arguments: [uri]},
+		});
+
+		if (!state.doc) {
+			return state.symbols.length > 0 && this.isDocumentable(state.filePath)
+				? [lens(0, 'catdoc: not documented — generate')]
+				: [];
+		}
+		const lenses = [];
+		if (state.doc.contentHash !== state.contentHash) {
+			lenses.push(lens(0, 'catdoc: summary stale — regenerate'));
+		}
+		for (const symbol of state.symbols) {
+			const symbolDoc = state.doc.symbols?.[symbol.name];
+			if (symbolDoc && symbolDoc.hash !== symbol.hash) {
+				lenses.push(
+					lens(
+						symbol.item.startLine - 1,
+						`catdoc: docs of ${symbol.name} stale — regenerate`,
+					),
+				);
+			}
+		}
+		return lenses;
+	}
+
+	private codeActions(uri: string, range: Range) {
+		const state = this.documentState(uri);
+		if (!state?.doc?.symbols) return [];
+		const symbol = this.symbolAt(state, range.start.line);
+		const symbolDoc = symbol && state.doc.symbols[symbol.name];
+		if (
+			!symbol ||
+			!symbolDoc ||
+			hasDocstring(state.lines, symbol.item, state.filePath)
+		) {
+			return [];
+		}
+		const position = docstringPosition(
+			state.lines,
+			symbol.item,
+			state.filePath,
+		);
+		if (!position) return [];
+
+		const docstring = renderDocstring(
+			symbolDoc,
+			state.filePath,
+			position.indent,
+			docstringFormat(
+				state.filePath,
+				state.lines,
+				this.docManager.workspacePath,
+			),
+		);
+		const insertAt = {line: position.line, character: 0};
+		return [
+			{
+				title: `Insert catdoc docstring for ${symbol.name}${
+					symbolDoc.hash === symbol.hash ? '' : ' (docs may be stale)'
+				}`,
+				kind: 'refactor.rewrite',
+				edit: {
+					changes: {
+						[uri]: [
+							{
+								range: {start: insertAt, end: insertAt},
+								newText: `${docstring.join('\n')}\n`,
+							},
+						],
+					},
+				},
+			},
+		];
+	}
+
+	private async executeCommand(command: unknown, args: unknown[]) {
+		if (command !== REGENERATE_COMMAND || typeof args[0] !== 'string') {
+			throw new RpcError(INVALID_PARAMS, `Unknown command: ${command}`);
+		}
+		const state = this.documentState(args[0]);
+		if (!state) {
+			throw new RpcError(INVALID_PARAMS, `${args[0]} is not in the workspace`);
+		}
+		// Hidden and ignored files, such as .env, are never sent to a model
+		if (!this.isDocumentable(state.filePath)) {
+			throw new RpcError(
+				INVALID_PARAMS,
+				`${args[0]} is hidden, ignored or excluded from documentation`,
+			);
+		}
+		// Documentation is generated from the saved file, not the buffer
+		await this.docManager.updateDocumentation(state.filePath);
+		debugLog(`Queued ${state.filePath} for regeneration`);
+		return null;
+	}
+}
+
+function renderSymbolHover(symbol: SymbolDocumentation): string {
+	const parts = ['```', symbol.signature, '```', '', symbol.description];
+	if (symbol.params.length > 0) {
+		parts.push(
+			'',
+			...symbol.params.map(
+				param =>
+					`- \`${param.name}\`${param.type ? ` \`${param.type}\`` : ''} — ${
+						param.description
+					}`,
+			),
+		);
+	}
+	if (symbol.returns) {
+		parts.push('', `**Returns** ${symbol.returns.description}`);
+	}
+	if (symbol.throws.length > 0) {
+		parts.push('', `**Throws** ${symbol.throws.join(', ')}`);
+	}
+	return parts.join('\n');
+}
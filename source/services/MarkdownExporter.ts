@@ -0,0 +1,282 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+	FileDocumentation,
+	ProjectDocumentation,
+	SymbolDocumentation,
+} from '../types/docs.js';
+import {DirectoryEntry, indexDirectories} from './DirectoryIndex.js';
+import {ImportGraph, buildImportGraph} from './ImportGraph.js';
+
+// Lists what the last export wrote, so re-exports remove pages of deleted files
+// without touching anything else in the output directory
+const MANIFEST_FILE = '.catdoc-export.json';
+
+function filePage(filePath: string): string {
+	return `${filePath}.md`;
+}
+
+function directoryPage(directory: string): string {
+	return directory === '.' ? 'index.md' : `${directory}/index.md`;
+}
+
+/**
+ * Relative link between two exported pages, percent-encoded for Markdown
+ */
+function link(fromPage: string, toPage: string): string {
+	return path.posix
+		.relative(path.posix.dirname(fromPage), toPage)
+		.split('/')
+		.map(encodeURIComponent)
+		.join('/');
+}
+
+function escapeLinkText(text: string): string {
+	return text.replace(/([\\[\]])/g, '\\$1');
+}
+
+function firstLine(text: string | undefined): string {
+	return (
+		text
+			?.split('\n')
+			.find(line => line.trim())
+			?.replace(/^[-*]\s*(\*\*[^*]+\*\*:\s*)?/, '') ?? ''
+	);
+}
+
+function fileListItem(
+	page: string,
+	docs: ProjectDocumentation,
+	filePath: string,
+	label = path.posix.basename(filePath),
+): string {
+	const file = docs.files[filePath];
+	const description = file?.structured?.purpose ?? firstLine(file?.summary);
+	return `- [${escapeLinkText(label)}](${link(page, filePage(filePath))})${
+		description ? ` — ${description}` : ''
+	}`;
+}
+
+function breadcrumbs(page: string, target: string): string {
+	const crumbs = [`[Project](${link(page, directoryPage('.'))})`];
+	const segments = target === '.' ? [] : target.split('/');
+	segments.forEach((segment, index) => {
+		const isLast = index === segments.length - 1;
+		crumbs.push(
+			isLast
+				? escapeLinkText(segment)
+				: `[${escapeLinkText(segment)}](${link(
+						page,
+						directoryPage(segments.slice(0, index + 1).join('/')),
+				  )})`,
+		);
+	});
+	return crumbs.join(' / ');
+}
+
+function renderDirectory(
+	docs: ProjectDocumentation,
+	directory: string,
+	entry: DirectoryEntry,
+): string {
+	const page = directoryPage(directory);
+	const isRoot = directory === '.';
+	const rollup = docs.directories?.[directory];
+	const lines = [`# ${isRoot ? 'Project Documentation' : `${directory}/`}`, ''];
+	if (!isRoot) lines.push(breadcrumbs(page, directory), '');
+	if (rollup) {
+		lines.push(
+			`## ${isRoot ? 'Architecture Overview' : 'Overview'}`,
+			'',
+			rollup.summary,
+			'',
+		);
+	}
+	if (entry.directories.length > 0) {
+		lines.push('## Directories', '');
+		for (const child of entry.directories) {
+			const description = firstLine(docs.directories?.[child]?.summary);
+			lines.push(
+				`- [${escapeLinkText(path.posix.basename(child))}/](${link(
+					page,
+					directoryPage(child),
+				)})${description ? ` — ${description}` : ''}`,
+			);
+		}
+		lines.push('');
+	}
+	if (entry.files.length > 0) {
+		lines.push('## Files', '');
+		lines.push(...entry.files.map(child => fileListItem(page, docs, child)));
+		lines.push('');
+	}
+	return lines.join('\n');
+}
+
+function renderSymbol(symbol: SymbolDocumentation): string[] {
+	const lines = [
+		`### \`${symbol.name}\``,
+		'',
+		`*${symbol.type}, lines ${symbol.startLine}-${symbol.endLine}*`,
+		'',
+		'```',
+		symbol.signature,
+		'```',
+		'',
+		symbol.description,
+		'',
+	];
+	if (symbol.params.length > 0) {
+		lines.push('**Parameters**', '');
+		for (const param of symbol.params) {
+			lines.push(
+				`- \`${param.name}\`${param.type ? ` (\`${param.type}\`)` : ''}: ${
+					param.description
+				}`,
+			);
+		}
+		lines.push('');
+	}
+	if (symbol.returns) {
+		lines.push(
+			`**Returns**${
+				symbol.returns.type ? ` \`${symbol.returns.type}\`` : ''
+			}: ${symbol.returns.description}`,
+			'',
+		);
+	}
+	if (symbol.throws.length > 0) {
+		lines.push(`**Throws**: ${symbol.throws.join(', ')}`, '');
+	}
+	return lines;
+}
+
+function renderFile(
+	docs: ProjectDocumentation,
+	graph: ImportGraph,
+	file: FileDocumentation,
+): string {
+	const page = filePage(file.path);
+	const lines = [
+		`# ${path.posix.basename(file.path)}`,
+		'',
+		breadcrumbs(page, file.path),
+		'',
+		`*Last modified ${new Date(
+			file.lastModified,
+		).toISOString()} · Docs updated ${file.lastUpdated}*`,
+		'',
+	];
+
+	const structured = file.structured;
+	if (structured) {
+		lines.push(structured.purpose, '');
+		const sections: Array<[string, string[]]> = [
+			['Exports', structured.exports.map(name => `\`${name}\``)],
+			['Side effects', structured.sideEffects],
+			['Dependencies', structured.dependencies.map(name => `\`${name}\``)],
+			['Caveats', structured.caveats],
+		];
+		for (const [title, entries] of sections) {
+			if (entries.length === 0) continue;
+			lines.push(`## ${title}`, '', ...entries.map(entry => `- ${entry}`), '');
+		}
+	} else {
+		lines.push('## Summary', '', file.summary, '');
+	}
+
+	const crossLinks: Array<[string, string[] | undefined]> = [
+		['Imports', graph.imports.get(file.path)],
+		['Imported by', graph.importedBy.get(file.path)],
+	];
+	for (const [title, files] of crossLinks) {
+		if (!files || files.length === 0) continue;
+		lines.push(
+			`## ${title}`,
+			'',
+			...files.map(other => fileListItem(page, docs, other, other)),
+			'',
+		);
+	}
+
+	const symbols = Object.values(file.symbols ?? {});
+	if (symbols.length > 0) {
+		lines.push('## Symbols', '');
+		for (const symbol of symbols) lines.push(...renderSymbol(symbol));
+	} else if (structured && structured.symbols.length > 0) {
+		lines.push('## Symbols', '');
+		for (const symbol of structured.symbols) {
+			lines.push(
+				`- \`${symbol.name}\` (${symbol.type}, lines ${symbol.startLine}-${symbol.endLine}): ${symbol.summary}`,
+			);
+		}
+		lines.push('');
+	}
+	return lines.join('\n');
+}
+
+function readManifest(outputDir: string): string[] {
+	try {
+		const manifest = JSON.parse(
+			fs.readFileSync(path.join(outputDir, MANIFEST_FILE), 'utf8'),
+		);
+		return Array.isArray(manifest.files) ? manifest.files : [];
+	} catch (error) {
+		return [];
+	}
+}
+
+/**
+ * Exports the documentation as Markdown mirroring the source layout: `<file>.md` for
+ * every documented file and an `index.md` per directory, all linked relatively so the
+ * tree can be committed to a wiki or fed to any Markdown site generator.
+ *
+ * @param docs The project documentation
+ * @param outputDir Directory to export into
+ * @param workspacePath Project root, used to read sources for import cross-links
+ * @returns The number of Markdown files written
+ */
+export function exportMarkdown(
+	docs: ProjectDocumentation,
+	outputDir: string,
+	workspacePath: string,
+): number {
+	const filePaths = Object.keys(docs.files).sort();
+	const directories = indexDirectories(filePaths);
+	if (!directories.has('.')) {
+		directories.set('.', {files: [], directories: []});
+	}
+	const graph = buildImportGraph(filePaths, workspacePath);
+
+	const pages = new Map<string, string>();
+	for (const [directory, entry] of directories) {
+		pages.set(
+			directoryPage(directory),
+			renderDirectory(docs, directory, entry),
+		);
+	}
+	for (const filePath of filePaths) {
+		pages.set(
+			filePage(filePath),
+			renderFile(docs, graph, docs.files[filePath]!),
+		);
+	}
+
+	const root = path.resolve(outputDir);
+	for (const stale of readManifest(outputDir)) {
+		const stalePath = path.resolve(root, stale);
+		if (!pages.has(stale) && stalePath.startsWith(root + path.sep)) {
+			fs.rmSync(stalePath, {force: true});
+		}
+	}
+	for (const [page, markdown] of pages) {
+		const pagePath = path.join(outputDir, page);
+		fs.mkdirSync(path.dirname(pagePath), {recursive: true});
+		fs.writeFileSync(pagePath, markdown);
+	}
+	fs.writeFileSync(
+		path.join(outputDir, MANIFEST_FILE),
+		JSON.stringify({files: [...pages.keys()].sort()}, null, 2),
+	);
+	return pages.size;
+}
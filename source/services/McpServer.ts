@@ -0,0 +1,415 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import {DocManager} from './DocManager.js';
+import {createDebugLog} from './DebugLog.js';
+import {qualifySymbols} from './StructuredDocs.js';
+import {
+	CodeItem,
+	findFileInTree,
+	generateHash,
+	getFileStructure,
+	getTreeJsonPath,
+} from './treesitter.js';
+
+const debugLog = createDebugLog('McpServer');
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const MAX_RANGE_LINES = 500;
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+interface JsonRpcMessage {
+	jsonrpc: '2.0';
+	id?: string | number | null;
+	method?: string;
+	params?: Record<string, unknown>;
+}
+
+interface ToolResult {
+	content: Array<{type: 'text'; text: string}>;
+	isError?: boolean;
+}
+
+/**
+ * A JSON-RPC error with its protocol error code
+ */
+class RpcError extends Error {
+	constructor(readonly code: number, message: string) {
+		super(message);
+		this.name = 'RpcError';
+	}
+}
+
+const TOOLS = [
+	{
+		name: 'get_file_summary',
+		description:
+			"Get catdoc's documentation of a file (summary, purpose, exports, dependencies, caveats and per-symbol docs) or the overview of a directory. Use '.' for the project architecture overview. Prefer this over reading whole files.",
+		inputSchema: {
+			type: 'object',
+			properties: {
+				path: {
+					type: 'string',
+					description: 'File or directory path relative to the project root',
+				},
+			},
+			required: ['path'],
+		},
+	},
+	{
+		name: 'search_docs',
+		description:
+			'Search the documentation of files, directories and symbols. Every term must match; results whose path or name matches rank first.',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				query: {type: 'string', description: 'Whitespace-separated terms'},
+				limit: {
+					type: 'integer',
+					minimum: 1,
+					maximum: 100,
+					description: 'Maximum number of results (default 20)',
+				},
+			},
+			required: ['query'],
+		},
+	},
+	{
+		name: 'list_symbols',
+		description:
+			'List the classes, methods and functions a file defines with their line ranges, plus their documentation when available. Use with read_file_range to read just one symbol.',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				path: {
+					type: 'string',
+					description: 'File path relative to the project root',
+				},
+			},
+			required: ['path'],
+		},
+	},
+	{
+		name: 'read_file_range',
+		description: `Read lines of a source file, numbered. At most ${MAX_RANGE_LINES} lines per call. Hidden and ignored files can't be read.`,
+		inputSchema: {
+			type: 'object',
+			properties: {
+				path: {
+					type: 'string',
+					description: 'File path relative to the project root',
+				},
+				startLine: {type: 'integer', minimum: 1, description: '1-based'},
+				endLine: {
+					type: 'integer',
+					minimum: 1,
+					description: 'Inclusive, defaults to the end of the file',
+				},
+			},
+			required: ['path', 'startLine'],
+		},
+	},
+] as const;
+
+/**
+ * Model Context Protocol server over stdio, exposing the documentation store and the
+ * tree-sitter index as tools so coding agents can reuse catdoc's summaries.
+ * Messages are newline-delimited JSON-RPC 2.0, as the MCP stdio transport specifies.
+ */
+export class McpServer {
+	constructor(private docManager: DocManager) {}
+
+	/**
+	 * Serves requests until the input stream ends.
+	 */
+	async run(
+		input: NodeJS.ReadableStream = process.stdin,
+		output: NodeJS.WritableStream = process.stdout,
+	): Promise<void> {
+		const lines = readline.createInterface({input, crlfDelay: Infinity});
+		for await (const line of lines) {
+			if (!line.trim()) continue;
+			const response = await this.handleLine(line);
+			if (response) output.write(`${JSON.stringify(response)}\n`);
+		}
+		debugLog('Input closed, MCP server stopping');
+	}
+
+	private async handleLine(line: string): Promise<object | null> {
+		let message: JsonRpcMessage;
+		try {
+			message = JSON.parse(line);
+		} catch (error) {
+			return errorResponse(null, PARSE_ERROR, `Parse error: ${error}`);
+		}
+		const id = message?.id ?? null;
+		// Notifications (no id) get no response, even when they fail
+		const isNotification = message?.id === undefined;
+		try {
+			if (message?.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+				throw new RpcError(INVALID_REQUEST, 'Invalid JSON-RPC request');
+			}
+			const result = await this.dispatch(message.method, message.params ?? {});
+			return isNotification ? null : {jsonrpc: '2.0', id, result};
+		} catch (error) {
+			debugLog(`Error handling ${message?.method}: ${error}`);
+			if (isNotification) return null;
+			return error instanceof RpcError
+				? errorResponse(id, error.code, error.message)
+				: errorResponse(id, INTERNAL_ERROR, String(error));
+		}
+	}
+
+	private async dispatch(
+		method: string,
+		params: Record<string, unknown>,
+	): Promise<unknown> {
+		switch (method) {
+			case 'initialize': {
+				const requested = params['protocolVersion'];
+				return {
+					protocolVersion:
+						typeof requested === 'string' &&
+						SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+							? requested
+							: SUPPORTED_PROTOCOL_VERSIONS[0],
+					capabilities: {tools: {}},
+					serverInfo: {name: 'catdoc', version: '0.0.0'},
+					instructions:
+						'catdoc keeps summaries of every file and directory in this project. Check get_file_summary or search_docs before reading source files.',
+				};
+			}
+			case 'ping':
+				return {};
+			case 'tools/list':
+				return {tools: TOOLS};
+			case 'tools/call':
+				return this.callTool(params['name'], params['arguments']);
+			default:
+				if (method.startsWith('notifications/')) return {};
+				throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+		}
+	}
+
+	private callTool(name: unknown, args: unknown): ToolResult {
+		const tool = TOOLS.find(candidate => candidate.name === name);
+		if (!tool) throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+		const input = (args ?? {}) as Record<string, unknown>;
+		for (const required of tool.inputSchema.required) {
+			if (input[required] === undefined) {
+				throw new RpcError(
+					INVALID_PARAMS,
+					`${tool.name}: missing argument "${required}"`,
+				);
+			}
+		}
+		// Failures the agent can act on are tool results, not protocol errors
+		try {
+			switch (tool.name) {
+				case 'get_file_summary':
+					return textResult(this.getFileSummary(String(input['path'])));
+				case 'search_docs':
+					return textResult(
+						this.docManager.search(
+							String(input['query']),
+							clampLimit(input['limit']),
+						),
+					);
+				case 'list_symbols':
+					return textResult(this.listSymbols(String(input['path'])));
+				case 'read_file_range':
+					return textResult(
+						this.readFileRange(
+							String(input['path']),
+							Number(input['startLine']),
+							input['endLine'] === undefined
+								? undefined
+								: Number(input['endLine']),
+						),
+					);
+			}
+		} catch (error) {
+			return {
+				content: [
+					{
+						type: 'text',
+						text: error instanceof Error ? error.message : String(error),
+					},
+				],
+				isError: true,
+			};
+		}
+	}
+
+	private getFileSummary(target: string) {
+		const absolutePath = this.resolveInWorkspace(target);
+		const doc = this.docManager.getDocumentation(absolutePath);
+		// Documentation of a file that is now ignored may quote its content
+		if (
+			doc &&
+			this.docManager.isDocumentable(this.relativePath(absolutePath))
+		) {
+			const {preview, ...rest} = doc;
+			return rest;
+		}
+		const directoryDoc =
+			this.docManager.getDirectoryDocumentation(absolutePath);
+		if (directoryDoc) return directoryDoc;
+		throw new Error(
+			`No documentation for ${target}. It may not be documented yet; try search_docs or list_symbols.`,
+		);
+	}
+
+	/**
+	 * Symbols from catdoc.tree.json while it matches the file, parsed afresh otherwise
+	 */
+	private listSymbols(target: string) {
+		const absolutePath = this.resolveDocumentableFile(target);
+		const content = readTextFile(absolutePath, target);
+		const relativePath = this.relativePath(absolutePath);
+
+		let items: CodeItem[] | null = null;
+		let source = 'catdoc.tree.json';
+		const treePath = getTreeJsonPath(this.docManager.workspacePath);
+		try {
+			const tree = JSON.parse(fs.readFileSync(treePath, 'utf8'));
+			const indexed = findFileInTree(tree, relativePath, true);
+			if (indexed?.file_hash === generateHash(content)) items = indexed.items;
+		} catch (error) {
+			debugLog(`Tree index unavailable at ${treePath}: ${error}`);
+		}
+		if (!items) {
+			const structure = getFileStructure(absolutePath, content);
+			if (!structure) {
+				throw new Error(`${target} is not in a language catdoc can parse`);
+			}
+			items = structure.items;
+			source = 'parsed';
+		}
+
+		const symbolDocs = this.docManager.getDocumentation(absolutePath)?.symbols;
+		return {
+			path: relativePath,
+			source,
+			symbols: qualifySymbols(items).map(({name, item}) => {
+				const symbolDoc = symbolDocs?.[name];
+				return {
+					name,
+					type: item.type,
+					startLine: item.startLine,
+					endLine: item.endLine,
+					...(symbolDoc && {
+						signature: symbolDoc.signature,
+						description: symbolDoc.description,
+					}),
+				};
+			}),
+		};
+	}
+
+	private readFileRange(target: string, startLine: number, endLine?: number) {
+		if (!Number.isInteger(startLine) || startLine < 1) {
+			throw new Error('startLine must be a positive integer');
+		}
+		const absolutePath = this.resolveDocumentableFile(target);
+		const lines = readTextFile(absolutePath, target).split('\n');
+		const last = Math.min(
+			endLine ?? lines.length,
+			lines.length,
+			startLine + MAX_RANGE_LINES - 1,
+		);
+		if (!Number.isInteger(last) || last < startLine) {
+			throw new Error(
+				`Invalid range ${startLine}-${endLine} (${target} has ${lines.length} lines)`,
+			);
+		}
+		const width = String(last).length;
+		const numbered = lines
+			.slice(startLine - 1, last)
+			.map(
+				(line, index) =>
+					`${String(startLine + index).padStart(width)}  ${line}`,
+			)
+			.join('\n');
+		const truncated =
+			last < Math.min(endLine ?? lines.length, lines.length)
+				? `\n[Truncated at ${MAX_RANGE_LINES} lines; continue from line ${
+						last + 1
+				  }]`
+				: '';
+		return `${this.relativePath(absolutePath)} lines ${startLine}-${last} of ${
+			lines.length
+		}\n${numbered}${truncated}`;
+	}
+
+	private resolveInWorkspace(target: string): string {
+		const workspace = path.resolve(this.docManager.workspacePath);
+		const absolutePath = path.resolve(workspace, target);
+		if (
+			absolutePath !== workspace &&
+			!absolutePath.startsWith(workspace + path.sep)
+		) {
+			throw new Error(`${target} is outside the project`);
+		}
+		return absolutePath;
+	}
+
+	/**
+	 * Resolves a file catdoc would document. Hidden and ignored files, such as .env or
+	 * .git/config, are refused so their contents never reach the agent.
+	 */
+	private resolveDocumentableFile(target: string): string {
+		const absolutePath = this.resolveInWorkspace(target);
+		if (!this.docManager.isDocumentable(this.relativePath(absolutePath))) {
+			throw new Error(
+				`${target} is hidden, ignored or excluded from documentation`,
+			);
+		}
+		return absolutePath;
+	}
+
+	private relativePath(absolutePath: string): string {
+		return path
+			.relative(this.docManager.workspacePath, absolutePath)
+			.replace(/\\/g, '/');
+	}
+}
+
+function readTextFile(absolutePath: string, target: string): string {
+	try {
+		return fs.readFileSync(absolutePath, 'utf8');
+	} catch (error) {
+		throw new Error(`Cannot read ${target}: ${error}`);
+	}
+}
+
+function clampLimit(limit: unknown): number {
+	const value = Number(limit ?? 20);
+	return Number.isInteger(value) ? Math.min(Math.max(value, 1), 100) : 20;
+}
+
+function textResult(value: unknown): ToolResult {
+	return {
+		content: [
+			{
+				type: 'text',
+				text:
+					typeof value === 'string' ? value : JSON.stringify(value, null, 2),
+			},
+		],
+	};
+}
+
+function errorResponse(
+	id: string | number | null,
+	code: number,
+	message: string,
+) {
+	return {jsonrpc: '2.0', id, error: {code, message}};
+}
@@ -0,0 +1,99 @@
+import {RateLimitConfig} from './ConfigManagement.js';
+
+const WINDOW_MS = 60_000;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_MESSAGE =
+	/\b(429|500|502|503|504)\b|rate.?limit|quota|resource.?exhausted|overloaded|unavailable|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed/i;
+
+/**
+ * Decides whether a failed model call is worth retrying (rate limits, timeouts,
+ * transient server and network errors)
+ */
+export function isRetryableError(error: unknown): boolean {
+	const status = (error as {status?: unknown})?.status;
+	if (typeof status === 'number') {
+		return RETRYABLE_STATUS_CODES.has(status);
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	return RETRYABLE_MESSAGE.test(message);
+}
+
+/**
+ * Rough token estimate for budgeting (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+const sleep = (ms: number) =>
+	new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Keeps model calls within requests-per-minute and tokens-per-minute budgets over a
+ * sliding one-minute window, and retries retryable failures with exponential backoff
+ * and jitter.
+ */
+export class RateGovernor {
+	private config: RateLimitConfig;
+	private window: Array<{time: number; tokens: number}> = [];
+
+	constructor(config: RateLimitConfig) {
+		this.config = config;
+	}
+
+	/**
+	 * Runs a model call once budget is available, retrying it when it fails transiently
+	 *
+	 * @param estimatedTokens Tokens the call is expected to consume
+	 * @param call The model call
+	 * @returns The call's result
+	 * @throws The last error once the call fails permanently or retries are exhausted
+	 */
+	async run<T>(estimatedTokens: number, call: () => Promise<T>): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			await this.acquire(estimatedTokens);
+			try {
+				return await call();
+			} catch (error) {
+				if (attempt >= this.config.maxRetries || !isRetryableError(error)) {
+					throw error;
+				}
+				await sleep(this.backoffDelay(attempt));
+			}
+		}
+	}
+
+	/**
+	 * Waits until the request fits in both budgets, then records it in the window.
+	 * A single request larger than the token budget is let through on an empty window.
+	 */
+	private async acquire(tokens: number): Promise<void> {
+		for (;;) {
+			const now = Date.now();
+			this.window = this.window.filter(entry => now - entry.time < WINDOW_MS);
+			const usedTokens = this.window.reduce(
+				(sum, entry) => sum + entry.tokens,
+				0,
+			);
+			if (
+				this.window.length === 0 ||
+				(this.window.length < this.config.requestsPerMinute &&
+					usedTokens + tokens <= this.config.tokensPerMinute)
+			) {
+				this.window.push({time: now, tokens});
+				return;
+			}
+			// Wait for the oldest entry to leave the window
+			await sleep(WINDOW_MS - (now - this.window[0]!.time) + 10);
+		}
+	}
+
+	private backoffDelay(attempt: number): number {
+		const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+		// Equal jitter: half fixed, half random, so concurrent retries spread out
+		return ceiling / 2 + Math.random() * (ceiling / 2);
+	}
+}
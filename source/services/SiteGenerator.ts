@@ -0,0 +1,587 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+	DirectoryDocumentation,
+	FileDocumentation,
+	ProjectDocumentation,
+	SymbolDocumentation,
+} from '../types/docs.js';
+import {DirectoryEntry, indexDirectories} from './DirectoryIndex.js';
+import {CoverageCounts, CoverageReport} from './DocstringCoverage.js';
+import {ImportGraph, buildImportGraph} from './ImportGraph.js';
+
+interface SearchEntry {
+	title: string;
+	kind: 'directory' | 'file' | 'symbol';
+	url: string; // Relative to the site root
+	text: string;
+}
+
+interface SiteContext extends ImportGraph {
+	docs: ProjectDocumentation;
+	directories: Map<string, DirectoryEntry>;
+}
+
+const STYLE = `body { font-family: system-ui, sans-serif; max-width: 1100px; margin: 0 auto; padding: 0 20px 40px; color: #1f2328; }
+header { display: flex; align-items: center; gap: 16px; padding: 16px 0; border-bottom: 1px solid #eee; position: relative; }
+header > a { font-weight: bold; text-decoration: none; color: inherit; }
+#search { flex: 1; padding: 6px 10px; border: 1px solid #ccc; border-radius: 6px; }
+#search-results { position: absolute; top: 52px; right: 0; left: 0; margin: 0; padding: 0; list-style: none; background: white; box-shadow: 0 4px 12px rgba(0,0,0,.15); z-index: 1; }
+#search-results li { padding: 6px 12px; border-bottom: 1px solid #f0f0f0; }
+#search-results small { color: #888; margin-left: 6px; }
+.breadcrumbs { margin: 12px 0; color: #666; }
+.summary { margin: 15px 0; padding: 15px; background: #f0f7ff; border-radius: 6px; }
+.summary ul { margin: 0; padding-left: 20px; }
+.summary li.depth-1 { margin-left: 20px; }
+.summary li.depth-2 { margin-left: 40px; }
+pre { background: #f6f8fa; padding: 15px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-wrap: break-word; }
+.symbol { border-top: 1px solid #eee; padding-top: 8px; }
+.symbol h3 small, .meta { color: #666; font-weight: normal; }
+table { border-collapse: collapse; }
+td { padding: 4px 8px; vertical-align: top; }
+h1, h2 { word-break: break-all; }
+.coverage td:nth-child(2), .coverage td:nth-child(3) { text-align: right; white-space: nowrap; }
+.bar { display: inline-block; width: 80px; height: 8px; margin-right: 6px; background: #eee; border-radius: 4px; overflow: hidden; }
+.bar span { display: block; height: 100%; }
+`;
+
+// Plain browser script: search-index.js defines the index, so no fetch (and no server) is needed
+const SEARCH_SCRIPT = `(function () {
+	var root = document.body.getAttribute('data-root') || '';
+	var input = document.getElementById('search');
+	var results = document.getElementById('search-results');
+	var index = window.CATDOC_SEARCH_INDEX || [];
+	input.addEventListener('input', function () {
+		var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+		results.innerHTML = '';
+		if (terms.length === 0) return;
+		var matches = index.filter(function (entry) {
+			var haystack = (entry.title + ' ' + entry.text).toLowerCase();
+			return terms.every(function (term) {
+				return haystack.indexOf(term) !== -1;
+			});
+		});
+		// Title matches first
+		matches.sort(function (a, b) {
+			var aTitle = a.title.toLowerCase().indexOf(terms[0]) === -1 ? 1 : 0;
+			var bTitle = b.title.toLowerCase().indexOf(terms[0]) === -1 ? 1 : 0;
+			return aTitle - bTitle;
+		});
+		matches.slice(0, 20).forEach(function (entry) {
+			var item = document.createElement('li');
+			var link = document.createElement('a');
+			link.href = root + entry.url;
+			link.textContent = entry.title;
+			var kind = document.createElement('small');
+			kind.textContent = entry.kind;
+			item.appendChild(link);
+			item.appendChild(kind);
+			results.appendChild(item);
+		});
+	});
+})();
+`;
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders the small markdown subset summaries use (bullets, bold, inline code).
+ * Everything is escaped first, so summaries can never inject markup.
+ */
+function renderMarkdown(text: string): string {
+	const inline = (line: string) =>
+		escapeHtml(line)
+			.replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+			.replace(/`([^`]+)`/g, '<code>$1</code>');
+	const html: string[] = [];
+	let inList = false;
+	for (const line of text.split('\n')) {
+		const bullet = line.match(/^(\s*)[-*]\s+(.*)$/);
+		if (bullet) {
+			if (!inList) html.push('<ul>');
+			inList = true;
+			const depth = Math.min(2, Math.floor(bullet[1]!.length / 2));
+			html.push(`<li class="depth-${depth}">${inline(bullet[2]!)}</li>`);
+			continue;
+		}
+		if (inList) html.push('</ul>');
+		inList = false;
+		if (line.trim()) html.push(`<p>${inline(line)}</p>`);
+	}
+	if (inList) html.push('</ul>');
+	return html.join('\n');
+}
+
+function filePage(filePath: string): string {
+	return `files/${filePath}.html`;
+}
+
+function directoryPage(directory: string): string {
+	return directory === '.' ? 'index.html' : `dirs/${directory}.html`;
+}
+
+/**
+ * Link from one page to another, relative so the site works from file://
+ */
+function link(fromPage: string, toPage: string): string {
+	return encodePath(path.posix.relative(path.posix.dirname(fromPage), toPage));
+}
+
+function encodePath(pagePath: string): string {
+	return pagePath.split('/').map(encodeURIComponent).join('/');
+}
+
+function symbolAnchor(name: string): string {
+	return `symbol-${name.replace(/[^\w.$-]/g, '_')}`;
+}
+
+function layout(
+	page: string,
+	title: string,
+	breadcrumbs: string,
+	body: string,
+): string {
+	const root = '../'.repeat(page.split('/').length - 1);
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} · Project Documentation</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body data-root="${root}">
+<header>
+<a href="${root}index.html">Project Documentation</a>
+<input id="search" type="search" placeholder="Search files and symbols" autocomplete="off">
+<ul id="search-results"></ul>
+</header>
+<nav class="breadcrumbs">${breadcrumbs}</nav>
+<main>
+${body}
+</main>
+<script src="${root}search-index.js"></script>
+<script src="${root}search.js"></script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Breadcrumbs from the project root down to a directory or file
+ */
+function renderBreadcrumbs(page: string, target: string): string {
+	const crumbs = [`<a href="${link(page, directoryPage('.'))}">Project</a>`];
+	if (target === '.') return crumbs.join(' / ');
+	const segments = target.split('/');
+	segments.forEach((segment, index) => {
+		const isLast = index === segments.length - 1;
+		const targetPath = segments.slice(0, index + 1).join('/');
+		crumbs.push(
+			isLast
+				? escapeHtml(segment)
+				: `<a href="${link(page, directoryPage(targetPath))}">${escapeHtml(
+						segment,
+				  )}</a>`,
+		);
+	});
+	return crumbs.join(' / ');
+}
+
+function fileListItem(
+	page: string,
+	file: FileDocumentation | undefined,
+	filePath: string,
+): string {
+	const description = file?.structured?.purpose ?? firstLine(file?.summary);
+	return `<li><a href="${link(page, filePage(filePath))}">${escapeHtml(
+		path.posix.basename(filePath),
+	)}</a>${description ? ` — ${renderInline(description)}` : ''}</li>`;
+}
+
+function firstLine(text: string | undefined): string {
+	return (
+		text
+			?.split('\n')
+			.find(line => line.trim())
+			?.replace(/^[-*]\s*(\*\*[^*]+\*\*:\s*)?/, '') ?? ''
+	);
+}
+
+function renderInline(text: string): string {
+	return escapeHtml(text).replace(/`([^`]+)`/g, '<code>$1</code>');
+}
+
+function renderDirectory(
+	context: SiteContext,
+	directory: string,
+	entry: DirectoryEntry,
+): string {
+	const page = directoryPage(directory);
+	const rollup: DirectoryDocumentation | undefined =
+		context.docs.directories?.[directory];
+	const isRoot = directory === '.';
+	const parts = [
+		`<h1>${
+			isRoot ? 'Project Documentation' : `${escapeHtml(directory)}/`
+		}</h1>`,
+		`<p class="meta">Last updated: ${escapeHtml(
+			new Date(context.docs.lastUpdated).toLocaleString(),
+		)}</p>`,
+	];
+	if (rollup) {
+		parts.push(
+			`<h2>${isRoot ? 'Architecture Overview' : 'Overview'}</h2>`,
+			`<div class="summary">${renderMarkdown(rollup.summary)}</div>`,
+		);
+	}
+	if (entry.directories.length > 0) {
+		parts.push(
+			'<h2>Directories</h2><ul>',
+			...entry.directories.map(child => {
+				const childRollup = context.docs.directories?.[child];
+				const description = firstLine(childRollup?.summary);
+				return `<li><a href="${link(page, directoryPage(child))}">${escapeHtml(
+					path.posix.basename(child),
+				)}/</a>${description ? ` — ${renderInline(description)}` : ''}</li>`;
+			}),
+			'</ul>',
+		);
+	}
+	if (entry.files.length > 0) {
+		parts.push(
+			'<h2>Files</h2><ul>',
+			...entry.files.map(filePath =>
+				fileListItem(page, context.docs.files[filePath], filePath),
+			),
+			'</ul>',
+		);
+	}
+	return layout(
+		page,
+		isRoot ? 'Overview' : directory,
+		renderBreadcrumbs(page, directory),
+		parts.join('\n'),
+	);
+}
+
+function renderSymbol(symbol: SymbolDocumentation): string {
+	const parts = [
+		`<section class="symbol" id="${symbolAnchor(symbol.name)}">`,
+		`<h3><a href="#${symbolAnchor(symbol.name)}">${escapeHtml(
+			symbol.name,
+		)}</a> <small>${symbol.type}, lines ${symbol.startLine}-${
+			symbol.endLine
+		}</small></h3>`,
+		`<pre><code>${escapeHtml(symbol.signature)}</code></pre>`,
+		`<p>${renderInline(symbol.description)}</p>`,
+	];
+	if (symbol.params.length > 0) {
+		parts.push(
+			'<h4>Parameters</h4><table>',
+			...symbol.params.map(
+				param =>
+					`<tr><td><code>${escapeHtml(param.name)}</code></td><td>${
+						param.type ? `<code>${escapeHtml(param.type)}</code>` : ''
+					}</td><td>${renderInline(param.description)}</td></tr>`,
+			),
+			'</table>',
+		);
+	}
+	if (symbol.returns) {
+		parts.push(
+			`<h4>Returns</h4><p>${
+				symbol.returns.type
+					? `<code>${escapeHtml(symbol.returns.type)}</code> — `
+					: ''
+			}${renderInline(symbol.returns.description)}</p>`,
+		);
+	}
+	if (symbol.throws.length > 0) {
+		parts.push(
+			`<h4>Throws</h4><ul>${symbol.throws
+				.map(error => `<li>${renderInline(error)}</li>`)
+				.join('')}</ul>`,
+		);
+	}
+	parts.push('</section>');
+	return parts.join('\n');
+}
+
+function renderFile(context: SiteContext, file: FileDocumentation): string {
+	const page = filePage(file.path);
+	const parts = [
+		`<h1>${escapeHtml(path.posix.basename(file.path))}</h1>`,
+		`<p class="meta">${escapeHtml(file.path)} · Last modified ${escapeHtml(
+			new Date(file.lastModified).toLocaleString(),
+		)} · Docs updated ${escapeHtml(
+			new Date(file.lastUpdated).toLocaleString(),
+		)}${file.chunks ? ` · summarized in ${file.chunks} parts` : ''}</p>`,
+	];
+
+	const structured = file.structured;
+	if (structured) {
+		const list = (title: string, entries: string[]) =>
+			entries.length > 0
+				? `<h3>${title}</h3><ul>${entries
+						.map(entry => `<li>${renderInline(entry)}</li>`)
+						.join('')}</ul>`
+				: '';
+		parts.push(
+			`<div class="summary"><p>${renderInline(structured.purpose)}</p>${list(
+				'Exports',
+				structured.exports,
+			)}${list('Side effects', structured.sideEffects)}${list(
+				'Dependencies',
+				structured.dependencies,
+			)}${list('Caveats', structured.caveats)}</div>`,
+		);
+	} else {
+		parts.push(`<div class="summary">${renderMarkdown(file.summary)}</div>`);
+	}
+
+	const crossLinks = (title: string, files: string[] | undefined) =>
+		files && files.length > 0
+			? `<h2>${title}</h2><ul>${files
+					.map(other => fileListItem(page, context.docs.files[other], other))
+					.join('')}</ul>`
+			: '';
+	parts.push(
+		crossLinks('Imports', context.imports.get(file.path)),
+		crossLinks('Imported by', context.importedBy.get(file.path)),
+	);
+
+	const symbols = Object.values(file.symbols ?? {});
+	if (symbols.length > 0) {
+		parts.push('<h2>Symbols</h2>', ...symbols.map(renderSymbol));
+	} else if (structured && structured.symbols.length > 0) {
+		// Older docs without per-symbol entries still get anchors from the summary
+		parts.push(
+			'<h2>Symbols</h2>',
+			...structured.symbols.map(
+				symbol =>
+					`<section class="symbol" id="${symbolAnchor(
+						symbol.name,
+					)}"><h3><a href="#${symbolAnchor(symbol.name)}">${escapeHtml(
+						symbol.name,
+					)}</a> <small>${symbol.type}, lines ${symbol.startLine}-${
+						symbol.endLine
+					}</small></h3><p>${renderInline(symbol.summary)}</p></section>`,
+			),
+		);
+	}
+
+	parts.push(
+		'<h2>Source Preview</h2>',
+		`<pre><code>${escapeHtml(file.preview ?? '')}</code></pre>`,
+	);
+	return layout(
+		page,
+		file.path,
+		renderBreadcrumbs(page, file.path),
+		parts.join('\n'),
+	);
+}
+
+function buildSearchIndex(context: SiteContext): SearchEntry[] {
+	const entries: SearchEntry[] = [];
+	for (const directory of context.directories.keys()) {
+		if (directory === '.') continue;
+		entries.push({
+			title: `${directory}/`,
+			kind: 'directory',
+			url: encodePath(directoryPage(directory)),
+			text: context.docs.directories?.[directory]?.summary ?? '',
+		});
+	}
+	for (const file of Object.values(context.docs.files)) {
+		entries.push({
+			title: file.path,
+			kind: 'file',
+			url: encodePath(filePage(file.path)),
+			text: file.structured?.purpose ?? file.summary,
+		});
+		const symbols = file.symbols
+			? Object.values(file.symbols).map(symbol => ({
+					name: symbol.name,
+					text: `${symbol.signature} ${symbol.description}`,
+			  }))
+			: (file.structured?.symbols ?? []).map(symbol => ({
+					name: symbol.name,
+					text: symbol.summary,
+			  }));
+		for (const symbol of symbols) {
+			entries.push({
+				title: `${symbol.name} (${path.posix.basename(file.path)})`,
+				kind: 'symbol',
+				url: `${encodePath(filePage(file.path))}#${symbolAnchor(symbol.name)}`,
+				text: symbol.text,
+			});
+		}
+	}
+	return entries;
+}
+
+function coverageColor(percent: number): string {
+	return percent >= 80 ? '#2da44e' : percent >= 50 ? '#d4a72c' : '#cf222e';
+}
+
+function coverageCells(counts: CoverageCounts): string {
+	return `<td>${counts.documented}/${
+		counts.total
+	}</td><td><span class="bar"><span style="width: ${
+		counts.percent
+	}%; background: ${coverageColor(counts.percent)}"></span></span>${Math.round(
+		counts.percent,
+	)}%</td>`;
+}
+
+/**
+ * The coverage page: project totals, every directory, then files from least to most
+ * covered with their undocumented symbols, linking to file pages that exist.
+ */
+function renderCoverage(report: CoverageReport, outputDir: string): string {
+	const page = 'coverage.html';
+	const files = [...report.files].sort(
+		(a, b) => a.percent - b.percent || a.path.localeCompare(b.path),
+	);
+	const fileCell = (filePath: string) =>
+		fs.existsSync(path.join(outputDir, filePage(filePath)))
+			? `<a href="${link(page, filePage(filePath))}">${escapeHtml(
+					filePath,
+			  )}</a>`
+			: escapeHtml(filePath);
+	const parts = [
+		'<h1>Docstring Coverage</h1>',
+		`<p class="meta">Measured ${escapeHtml(
+			new Date(report.measuredAt).toLocaleString(),
+		)} · ${report.project.documented} of ${
+			report.project.total
+		} classes, methods and functions documented (${Math.round(
+			report.project.percent,
+		)}%)</p>`,
+		'<h2>Directories</h2>',
+		'<table class="coverage">',
+		...Object.entries(report.directories)
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(
+				([directory, counts]) =>
+					`<tr><td>${
+						directory === '.' ? '(project)' : `${escapeHtml(directory)}/`
+					}</td>${coverageCells(counts)}</tr>`,
+			),
+		'</table>',
+		'<h2>Files</h2>',
+		'<table class="coverage">',
+		...files.map(file => {
+			const undocumented = file.symbols
+				.filter(symbol => !symbol.documented)
+				.map(symbol => `<code>${escapeHtml(symbol.name)}</code>`);
+			return `<tr><td>${fileCell(file.path)}${
+				undocumented.length > 0
+					? `<br><small class="meta">Missing: ${undocumented.join(
+							', ',
+					  )}</small>`
+					: ''
+			}</td>${coverageCells(file)}</tr>`;
+		}),
+		'</table>',
+	];
+	return layout(
+		page,
+		'Docstring Coverage',
+		`${renderBreadcrumbs(page, '.')} / Coverage`,
+		parts.join('\n'),
+	);
+}
+
+function writePage(outputDir: string, page: string, html: string) {
+	const pagePath = path.join(outputDir, page);
+	fs.mkdirSync(path.dirname(pagePath), {recursive: true});
+	fs.writeFileSync(pagePath, html);
+}
+
+/**
+ * Writes the documentation as a static site: an index page, a page per directory and
+ * per file with symbol anchors, breadcrumbs and import cross-links, and a client-side
+ * search index. All links are relative, so the site works straight from file://.
+ *
+ * @param docs The project documentation
+ * @param outputDir Directory the site is written to; previous pages are replaced
+ * @param workspacePath Project root, used to read sources for import cross-links
+ * @returns The number of pages written
+ */
+export function generateSite(
+	docs: ProjectDocumentation,
+	outputDir: string,
+	workspacePath: string,
+): number {
+	const filePaths = Object.keys(docs.files).sort();
+	const context: SiteContext = {
+		docs,
+		directories: indexDirectories(filePaths),
+		...buildImportGraph(filePaths, workspacePath),
+	};
+	if (!context.directories.has('.')) {
+		context.directories.set('.', {files: [], directories: []});
+	}
+
+	// Pages of renamed or deleted files must not linger
+	fs.rmSync(path.join(outputDir, 'files'), {recursive: true, force: true});
+	fs.rmSync(path.join(outputDir, 'dirs'), {recursive: true, force: true});
+	fs.mkdirSync(outputDir, {recursive: true});
+
+	let pages = 0;
+	for (const [directory, entry] of context.directories) {
+		writePage(
+			outputDir,
+			directoryPage(directory),
+			renderDirectory(context, directory, entry),
+		);
+		pages++;
+	}
+	for (const filePath of filePaths) {
+		writePage(
+			outputDir,
+			filePage(filePath),
+			renderFile(context, docs.files[filePath]!),
+		);
+		pages++;
+	}
+
+	fs.writeFileSync(path.join(outputDir, 'style.css'), STYLE);
+	fs.writeFileSync(path.join(outputDir, 'search.js'), SEARCH_SCRIPT);
+	fs.writeFileSync(
+		path.join(outputDir, 'search-index.js'),
+		`window.CATDOC_SEARCH_INDEX = ${JSON.stringify(
+			buildSearchIndex(context),
+		).replace(/</g, '\\u003c')};\n`,
+	);
+	return pages;
+}
+
+/**
+ * Writes the docstring coverage report as coverage.html next to the site's pages.
+ * The rest of the site is left as is, so this works before any docs are generated.
+ *
+ * @param report Docstring coverage of the workspace
+ * @param outputDir Directory of the HTML site
+ * @returns Path of the written page
+ */
+export function writeCoveragePage(
+	report: CoverageReport,
+	outputDir: string,
+): string {
+	writePage(outputDir, 'coverage.html', renderCoverage(report, outputDir));
+	fs.writeFileSync(path.join(outputDir, 'style.css'), STYLE);
+	if (!fs.existsSync(path.join(outputDir, 'search.js'))) {
+		fs.writeFileSync(path.join(outputDir, 'search.js'), SEARCH_SCRIPT);
+	}
+	return path.join(outputDir, 'coverage.html');
+}
@@ -0,0 +1,410 @@
+import {
+	StructuredDocumentation,
+	SymbolDocumentation,
+	SymbolParameter,
+	SymbolSummary,
+} from '../types/docs.js';
+import {CodeItem, generateHash} from './treesitter.js';
+
+/**
+ * JSON schema the model is asked to follow for file documentation.
+ * `parseStructuredDocumentation` enforces the same shape.
+ */
+export const STRUCTURED_DOC_SCHEMA = {
+	type: 'object',
+	required: [
+		'purpose',
+		'symbols',
+		'exports',
+		'sideEffects',
+		'dependencies',
+		'caveats',
+	],
+	properties: {
+		purpose: {type: 'string', description: 'One or two sentences'},
+		symbols: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['name', 'summary'],
+				properties: {
+					name: {type: 'string', description: 'Exact symbol name as listed'},
+					summary: {type: 'string', description: 'One line'},
+				},
+			},
+		},
+		exports: {type: 'array', items: {type: 'string'}},
+		sideEffects: {type: 'array', items: {type: 'string'}},
+		dependencies: {type: 'array', items: {type: 'string'}},
+		caveats: {type: 'array', items: {type: 'string'}},
+	},
+} as const;
+
+/**
+ * JSON schema for per-symbol documentation, enforced by `parseSymbolDocumentation`
+ */
+export const SYMBOL_DOC_SCHEMA = {
+	type: 'object',
+	required: ['symbols'],
+	properties: {
+		symbols: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['name', 'signature', 'description', 'params', 'throws'],
+				properties: {
+					name: {type: 'string', description: 'Exact symbol name as listed'},
+					signature: {type: 'string'},
+					description: {type: 'string'},
+					params: {
+						type: 'array',
+						items: {
+							type: 'object',
+							required: ['name', 'description'],
+							properties: {
+								name: {type: 'string'},
+								type: {type: 'string'},
+								description: {type: 'string'},
+							},
+						},
+					},
+					returns: {
+						type: ['object', 'null'],
+						required: ['description'],
+						properties: {
+							type: {type: 'string'},
+							description: {type: 'string'},
+						},
+					},
+					throws: {type: 'array', items: {type: 'string'}},
+					remarks: {type: 'string', description: 'Only when it adds value'},
+					example: {type: 'string', description: 'Code only, no fences'},
+				},
+			},
+		},
+	},
+} as const;
+
+export const STRUCTURED_DOC_FIELDS = [
+	'purpose',
+	'symbols',
+	'exports',
+	'sideEffects',
+	'dependencies',
+	'caveats',
+] as const;
+
+export type StructuredDocField = (typeof STRUCTURED_DOC_FIELDS)[number];
+
+const LIST_FIELDS = [
+	'exports',
+	'sideEffects',
+	'dependencies',
+	'caveats',
+] as const;
+
+/**
+ * Flattens tree-sitter items into qualified names (`Class.method`) in file order
+ */
+export function qualifySymbols(
+	items: CodeItem[],
+	prefix = '',
+): Array<{name: string; item: CodeItem}> {
+	return items.flatMap(item => {
+		const name = `${prefix}${item.name}`;
+		return [{name, item}, ...qualifySymbols(item.children ?? [], `${name}.`)];
+	});
+}
+
+export interface SymbolSource {
+	name: string; // Qualified name
+	item: CodeItem;
+	source: string; // The symbol's own lines, without those of nested symbols
+	hash: string;
+}
+
+/**
+ * Extracts the source every symbol owns: its lines minus those of nested symbols, so a
+ * class's hash covers its header and fields but not its methods, and editing one method
+ * changes only that method's hash.
+ */
+export function collectSymbolSources(
+	items: CodeItem[],
+	content: string,
+): SymbolSource[] {
+	const lines = content.split('\n');
+	return qualifySymbols(items).map(({name, item}) => {
+		const nested = item.children ?? [];
+		const ownLines: string[] = [];
+		for (let line = item.startLine; line <= item.endLine; line++) {
+			if (
+				nested.some(child => line >= child.startLine && line <= child.endLine)
+			) {
+				continue;
+			}
+			ownLines.push(lines[line - 1] ?? '');
+		}
+		const source = ownLines.join('\n');
+		return {name, item, source, hash: generateHash(source)};
+	});
+}
+
+function parseJsonObject(
+	response: string,
+	description: string,
+): Record<string, unknown> {
+	const json = response
+		.trim()
+		.replace(/^```(?:json)?\s*/i, '')
+		.replace(/\s*```$/, '');
+	let value: unknown;
+	try {
+		value = JSON.parse(json);
+	} catch (error) {
+		throw new Error(`${description} is not valid JSON: ${error}`);
+	}
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		throw new Error(`${description} must be a JSON object`);
+	}
+	return value as Record<string, unknown>;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+/**
+ * Finds the symbol a model referred to, by qualified name or by an unambiguous bare name
+ */
+function matchSymbol<T extends {name: string; item: CodeItem}>(
+	known: T[],
+	name: string,
+): T | undefined {
+	const trimmed = name.trim();
+	const bareMatches = known.filter(symbol => symbol.item.name === trimmed);
+	return (
+		known.find(symbol => symbol.name === trimmed) ??
+		(bareMatches.length === 1 ? bareMatches[0] : undefined)
+	);
+}
+
+/**
+ * Parses a model response and validates it against `SYMBOL_DOC_SCHEMA`. Entries are
+ * matched to the requested symbols, which supply the type, line range and hash;
+ * entries for other symbols are dropped, and requested symbols the response skipped
+ * are simply absent from the result.
+ *
+ * @param response Raw model response, optionally wrapped in a code fence
+ * @param requested The symbols the prompt asked about
+ * @returns The validated documentation, in file order
+ * @throws Error listing every problem when the response doesn't match the schema
+ */
+export function parseSymbolDocumentation(
+	response: string,
+	requested: SymbolSource[],
+): SymbolDocumentation[] {
+	const raw = parseJsonObject(response, 'Symbol documentation');
+	const rawSymbols = raw['symbols'];
+	if (!Array.isArray(rawSymbols)) {
+		throw new Error(
+			'Symbol documentation failed validation: "symbols" must be an array',
+		);
+	}
+
+	const problems: string[] = [];
+	const documented = new Map<string, SymbolDocumentation>();
+	rawSymbols.forEach((entry, index) => {
+		const at = `"symbols[${index}]"`;
+		if (!entry || typeof entry !== 'object') {
+			problems.push(`${at} must be an object`);
+			return;
+		}
+		const {
+			name,
+			signature,
+			description,
+			params,
+			returns,
+			throws,
+			remarks,
+			example,
+		} = entry;
+		const entryProblems: string[] = [];
+		if (typeof name !== 'string') entryProblems.push(`${at}.name`);
+		if (typeof signature !== 'string') entryProblems.push(`${at}.signature`);
+		if (typeof description !== 'string' || !description.trim()) {
+			entryProblems.push(`${at}.description`);
+		}
+		const validParams =
+			Array.isArray(params) &&
+			params.every(
+				param =>
+					typeof param?.name === 'string' &&
+					typeof param?.description === 'string' &&
+					(param.type === undefined || typeof param.type === 'string'),
+			);
+		if (!validParams) entryProblems.push(`${at}.params`);
+		const validReturns =
+			returns === undefined ||
+			returns === null ||
+			(typeof returns?.description === 'string' &&
+				(returns.type === undefined || typeof returns.type === 'string'));
+		if (!validReturns) entryProblems.push(`${at}.returns`);
+		if (!isStringArray(throws)) entryProblems.push(`${at}.throws`);
+		if (
+			remarks !== undefined &&
+			remarks !== null &&
+			typeof remarks !== 'string'
+		) {
+			entryProblems.push(`${at}.remarks`);
+		}
+		if (
+			example !== undefined &&
+			example !== null &&
+			typeof example !== 'string'
+		) {
+			entryProblems.push(`${at}.example`);
+		}
+		if (entryProblems.length > 0) {
+			problems.push(`invalid ${entryProblems.join(', ')}`);
+			return;
+		}
+
+		const match = matchSymbol(requested, name);
+		if (!match || documented.has(match.name)) return;
+		documented.set(match.name, {
+			name: match.name,
+			type: match.item.type,
+			startLine: match.item.startLine,
+			endLine: match.item.endLine,
+			hash: match.hash,
+			signature: signature.trim(),
+			description: description.trim(),
+			params: (params as SymbolParameter[]).map(param => ({
+				name: param.name,
+				...(param.type && {type: param.type}),
+				description: param.description,
+			})),
+			...(returns && {
+				returns: {
+					...(returns.type && {type: returns.type}),
+					description: returns.description,
+				},
+			}),
+			throws: (throws as string[]).filter(entry => entry.trim()),
+			...(remarks?.trim() && {remarks: remarks.trim()}),
+			...(example?.trim() && {example: example.replace(/^\n+|\s+$/g, '')}),
+		});
+	});
+
+	if (problems.length > 0) {
+		throw new Error(
+			`Symbol documentation failed validation: ${problems.join('; ')}`,
+		);
+	}
+	return [...documented.values()].sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Parses a model response and validates it against `STRUCTURED_DOC_SCHEMA`.
+ * Symbols are matched to the file's tree-sitter items by qualified name (or by bare
+ * name when that is unambiguous) and take their type and line range from the item;
+ * symbols the file doesn't define are dropped.
+ *
+ * @param response Raw model response, optionally wrapped in a code fence
+ * @param items Tree-sitter items of the documented file
+ * @returns The validated documentation
+ * @throws Error listing every problem when the response doesn't match the schema
+ */
+export function parseStructuredDocumentation(
+	response: string,
+	items: CodeItem[],
+): StructuredDocumentation {
+	const raw = parseJsonObject(response, 'Structured documentation');
+	const problems: string[] = [];
+
+	const purpose = raw['purpose'];
+	if (typeof purpose !== 'string' || !purpose.trim()) {
+		problems.push('"purpose" must be a non-empty string');
+	}
+
+	const lists: Record<string, string[]> = {};
+	for (const field of LIST_FIELDS) {
+		const list = raw[field];
+		if (!isStringArray(list)) {
+			problems.push(`"${field}" must be an array of strings`);
+		} else {
+			lists[field] = list.map(entry => entry.trim()).filter(Boolean);
+		}
+	}
+
+	const symbols: SymbolSummary[] = [];
+	const rawSymbols = raw['symbols'];
+	if (Array.isArray(rawSymbols)) {
+		const known = qualifySymbols(items);
+		const seen = new Set<string>();
+		rawSymbols.forEach((entry, index) => {
+			const name = entry?.name;
+			const summary = entry?.summary;
+			if (typeof name !== 'string' || typeof summary !== 'string') {
+				problems.push(
+					`"symbols[${index}]" must have string "name" and "summary"`,
+				);
+				return;
+			}
+			const match = matchSymbol(known, name);
+			if (!match || seen.has(match.name)) return;
+			seen.add(match.name);
+			symbols.push({
+				name: match.name,
+				type: match.item.type,
+				startLine: match.item.startLine,
+				endLine: match.item.endLine,
+				summary: summary.trim(),
+			});
+		});
+	} else {
+		problems.push('"symbols" must be an array');
+	}
+
+	if (problems.length > 0) {
+		throw new Error(
+			`Structured documentation failed validation: ${problems.join('; ')}`,
+		);
+	}
+
+	return {
+		purpose: (purpose as string).trim(),
+		symbols: symbols.sort((a, b) => a.startLine - b.startLine),
+		exports: lists['exports']!,
+		sideEffects: lists['sideEffects']!,
+		dependencies: lists['dependencies']!,
+		caveats: lists['caveats']!,
+	};
+}
+
+/**
+ * Renders structured documentation as the markdown summary shown in the TUI
+ */
+export function renderStructuredSummary(doc: StructuredDocumentation): string {
+	const lines = [`- **Purpose**: ${doc.purpose}`];
+	if (doc.symbols.length > 0) {
+		lines.push('- **Symbols**:');
+		for (const symbol of doc.symbols) {
+			lines.push(
+				`  - \`${symbol.name}\` (lines ${symbol.startLine}-${symbol.endLine}): ${symbol.summary}`,
+			);
+		}
+	}
+	const listSections: Array<[string, string[]]> = [
+		['Exports', doc.exports.map(name => `\`${name}\``)],
+		['Side effects', doc.sideEffects],
+		['Dependencies', doc.dependencies.map(name => `\`${name}\``)],
+		['Caveats', doc.caveats],
+	];
+	for (const [title, entries] of listSections) {
+		if (entries.length > 0) {
+			lines.push(`- **${title}**: ${entries.join(', ')}`);
+		}
+	}
+	return lines.join('\n');
+}
@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import {StructuredDocumentation} from '../types/docs.js';
+
+export interface CachedSummary {
+	summary: string;
+	contentHash: string;
+	promptVersion: number;
+	model: string;
+	createdAt: string;
+	chunks?: number;
+	structured?: StructuredDocumentation;
+}
+
+/**
+ * Persistent store of model responses keyed by what produced them: the file content,
+ * the prompt template version and the model. Identical inputs never hit the model twice.
+ */
+export class SummaryCache {
+	private cacheDir: string;
+
+	constructor(cacheDir: string) {
+		this.cacheDir = cacheDir;
+	}
+
+	/**
+	 * Builds the cache key for a generation request
+	 *
+	 * @param contentHash Hash of the file content sent to the model
+	 * @param promptVersion Version of the prompt template, bumped whenever the prompt changes
+	 * @param model Provider-qualified model id, e.g. `google:gemini-2.0-flash`
+	 */
+	static key(contentHash: string, promptVersion: number, model: string) {
+		return crypto
+			.createHash('sha256')
+			.update(`${contentHash}\n${promptVersion}\n${model}`)
+			.digest('hex');
+	}
+
+	get(key: string): CachedSummary | undefined {
+		try {
+			const entryPath = this.entryPath(key);
+			if (!fs.existsSync(entryPath)) return undefined;
+			return JSON.parse(fs.readFileSync(entryPath, 'utf8')) as CachedSummary;
+		} catch (error) {
+			return undefined; // Treat unreadable entries as misses
+		}
+	}
+
+	set(key: string, entry: CachedSummary): void {
+		try {
+			const entryPath = this.entryPath(key);
+			fs.mkdirSync(path.dirname(entryPath), {recursive: true});
+			fs.writeFileSync(entryPath, JSON.stringify(entry, null, 2));
+		} catch (error) {
+			// A failed cache write only costs a future regeneration
+		}
+	}
+
+	private entryPath(key: string): string {
+		// Shard by prefix to keep directories small
+		return path.join(this.cacheDir, key.slice(0, 2), `${key}.json`);
+	}
+}
@@ -0,0 +1,180 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+export type JournalReason = 'docstrings' | 'gitignore';
+
+export interface JournalEntry {
+	id: string;
+	path: string; // Relative to the project root
+	reason: JournalReason;
+	writtenAt: string;
+	existed: boolean; // False when catdoc created the file; undoing deletes it
+	writtenHash: string; // Of what catdoc wrote, to detect edits made since
+	undoneAt?: string;
+}
+
+export interface UndoConflict {
+	entry: JournalEntry;
+	reason: string;
+}
+
+export interface UndoResult {
+	restored: JournalEntry[];
+	conflicts: UndoConflict[];
+}
+
+function hashContent(content: string): string {
+	return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function journalDir(projectRoot: string): string {
+	return path.join(projectRoot, '.catdoc', 'journal');
+}
+
+function journalPath(projectRoot: string): string {
+	return path.join(journalDir(projectRoot), 'journal.json');
+}
+
+function backupPath(projectRoot: string, id: string): string {
+	return path.join(journalDir(projectRoot), 'backups', id);
+}
+
+/**
+ * Every journal entry of the project, oldest first
+ */
+export function readJournal(projectRoot: string): JournalEntry[] {
+	try {
+		return JSON.parse(fs.readFileSync(journalPath(projectRoot), 'utf8'));
+	} catch (error) {
+		return [];
+	}
+}
+
+function saveJournal(projectRoot: string, entries: JournalEntry[]) {
+	fs.mkdirSync(journalDir(projectRoot), {recursive: true});
+	const tempPath = `${journalPath(projectRoot)}.tmp`;
+	fs.writeFileSync(tempPath, JSON.stringify(entries, null, 2));
+	fs.renameSync(tempPath, journalPath(projectRoot));
+}
+
+/**
+ * Writes a file catdoc modifies on the user's behalf, first backing up its current
+ * content and recording the write in the project's undo journal
+ * (.catdoc/journal). Nothing is written if the backup fails.
+ *
+ * @param projectRoot Root of the project whose journal records the write
+ * @param filePath Absolute path of the file to write
+ * @param content The new content
+ * @param reason What the write was for
+ * @returns The journal entry
+ */
+export function writeFileWithJournal(
+	projectRoot: string,
+	filePath: string,
+	content: string,
+	reason: JournalReason,
+): JournalEntry {
+	const existed = fs.existsSync(filePath);
+	const entry: JournalEntry = {
+		id: `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+		path: path.relative(projectRoot, filePath).replace(/\\/g, '/'),
+		reason,
+		writtenAt: new Date().toISOString(),
+		existed,
+		writtenHash: hashContent(content),
+	};
+	if (existed) {
+		fs.mkdirSync(path.dirname(backupPath(projectRoot, entry.id)), {
+			recursive: true,
+		});
+		fs.copyFileSync(filePath, backupPath(projectRoot, entry.id));
+	}
+	saveJournal(projectRoot, [...readJournal(projectRoot), entry]);
+	fs.writeFileSync(filePath, content);
+	return entry;
+}
+
+/**
+ * Restores files to their content before catdoc wrote them, newest write first.
+ * A file edited since catdoc wrote it is left alone (with its older entries) unless
+ * `force` is set, so undo never discards later work.
+ *
+ * @param projectRoot Root of the project
+ * @param options `since` undoes every write at or after that time; otherwise only the
+ * most recent write is undone
+ * @returns The restored entries and those that could not be restored
+ */
+export function undoWrites(
+	projectRoot: string,
+	options: {since?: Date; force?: boolean} = {},
+): UndoResult {
+	const entries = readJournal(projectRoot);
+	const pending = entries.filter(entry => !entry.undoneAt).reverse();
+	const selected = options.since
+		? pending.filter(
+				entry =>
+					new Date(entry.writtenAt).getTime() >= options.since!.getTime(),
+		  )
+		: pending.slice(0, 1);
+
+	const result: UndoResult = {restored: [], conflicts: []};
+	const blockedPaths = new Set<string>();
+	for (const entry of selected) {
+		const filePath = path.join(projectRoot, entry.path);
+		if (blockedPaths.has(entry.path)) {
+			result.conflicts.push({
+				entry,
+				reason: 'a later write to this file could not be undone',
+			});
+			continue;
+		}
+		const current = fs.existsSync(filePath)
+			? fs.readFileSync(filePath, 'utf8')
+			: null;
+		if (
+			!options.force &&
+			current !== null &&
+			hashContent(current) !== entry.writtenHash
+		) {
+			blockedPaths.add(entry.path);
+			result.conflicts.push({
+				entry,
+				reason: 'edited since catdoc wrote it (use --force to restore anyway)',
+			});
+			continue;
+		}
+		try {
+			if (entry.existed) {
+				fs.copyFileSync(backupPath(projectRoot, entry.id), filePath);
+			} else {
+				fs.rmSync(filePath, {force: true});
+			}
+		} catch (error) {
+			blockedPaths.add(entry.path);
+			result.conflicts.push({entry, reason: `restore failed: ${error}`});
+			continue;
+		}
+		entry.undoneAt = new Date().toISOString();
+		result.restored.push(entry);
+	}
+	saveJournal(projectRoot, entries);
+	return result;
+}
+
+/**
+ * Parses `--all-since`: a date/time, or a duration ago such as 30m, 2h or 1d
+ *
+ * @returns The time, or null when the value is neither
+ */
+export function parseSince(value: string, now = new Date()): Date | null {
+	const duration = value.trim().match(/^(\d+)\s*([smhd])$/);
+	if (duration) {
+		const unitMs = {s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000}[
+			duration[2] as 's' | 'm' | 'h' | 'd'
+		];
+		return new Date(now.getTime() - Number(duration[1]) * unitMs);
+	}
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? null : new Date(time);
+}
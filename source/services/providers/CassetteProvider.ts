@@ -0,0 +1,164 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import {
+	ChatRequest,
+	DocstringRequest,
+	LLMProvider,
+	LLMTask,
+	ModelSelection,
+	SummarizeRequest,
+} from '../../types/llm.js';
+import {CassetteConfig} from '../ConfigManagement.js';
+
+export interface CassetteEntry {
+	task: LLMTask;
+	provider: string;
+	model: string;
+	system?: string;
+	prompt: string;
+	response: string;
+	recordedAt: string;
+}
+
+/**
+ * Raised in replay mode when a prompt has no recorded response
+ */
+export class CassetteMissError extends Error {
+	constructor(task: LLMTask, key: string, dir: string) {
+		super(
+			`No cassette recorded for ${task} prompt ${key} in ${dir}. Run with CATDOC_CASSETTE=record to capture it.`,
+		);
+		this.name = 'CassetteMissError';
+	}
+}
+
+/**
+ * Hashes everything that determines a response: the provider and model, the task, the
+ * system prompt and the prompt. Switching provider or model therefore misses instead of
+ * replaying responses recorded from another model.
+ */
+export function getCassetteKey(
+	provider: string,
+	model: string,
+	task: LLMTask,
+	prompt: string,
+	system = '',
+): string {
+	return crypto
+		.createHash('sha256')
+		.update(JSON.stringify([provider, model, task, system, prompt]))
+		.digest('hex');
+}
+
+/**
+ * Wraps another provider to persist every prompt/response pair ('record'), or serves
+ * responses from disk without calling any model ('replay').
+ */
+export class CassetteProvider implements LLMProvider {
+	readonly name: string;
+	readonly models: ModelSelection;
+	readonly offline: boolean;
+	private config: CassetteConfig;
+	private inner: LLMProvider | null;
+	private provider: string; // The provider responses are recorded for
+
+	/**
+	 * @param config Cassette mode and directory
+	 * @param createInner Factory for the real provider, only invoked when recording
+	 * @param provider Name of the configured provider, whose recordings are replayed
+	 * @param models Models of the configured provider, whose recordings are replayed
+	 */
+	constructor(
+		config: CassetteConfig,
+		createInner: () => LLMProvider,
+		provider: string,
+		models: ModelSelection,
+	) {
+		this.config = config;
+		this.inner = config.mode === 'record' ? createInner() : null;
+		this.name = this.inner ? this.inner.name : 'cassette';
+		this.provider = this.inner ? this.inner.name : provider;
+		this.models = this.inner ? this.inner.models : models;
+		this.offline = this.inner ? Boolean(this.inner.offline) : true;
+	}
+
+	async summarize(request: SummarizeRequest): Promise<string> {
+		return this.play('summary', request.prompt, inner =>
+			inner.summarize(request),
+		);
+	}
+
+	async generateDocstrings(request: DocstringRequest): Promise<string> {
+		return this.play('docstring', request.prompt, inner =>
+			inner.generateDocstrings(request),
+		);
+	}
+
+	async *streamChat(request: ChatRequest): AsyncIterable<string> {
+		const key = getCassetteKey(
+			this.provider,
+			this.models.chat,
+			'chat',
+			request.prompt,
+			request.system,
+		);
+		if (!this.inner) {
+			yield this.load('chat', key).response;
+			return;
+		}
+
+		let response = '';
+		for await (const chunk of this.inner.streamChat(request)) {
+			response += chunk;
+			yield chunk;
+		}
+		this.save(key, {
+			task: 'chat',
+			provider: this.inner.name,
+			model: this.inner.models.chat,
+			system: request.system,
+			prompt: request.prompt,
+			response,
+			recordedAt: new Date().toISOString(),
+		});
+	}
+
+	private async play(
+		task: LLMTask,
+		prompt: string,
+		call: (inner: LLMProvider) => Promise<string>,
+	): Promise<string> {
+		const key = getCassetteKey(this.provider, this.models[task], task, prompt);
+		if (!this.inner) {
+			return this.load(task, key).response;
+		}
+
+		const response = await call(this.inner);
+		this.save(key, {
+			task,
+			provider: this.inner.name,
+			model: this.inner.models[task],
+			prompt,
+			response,
+			recordedAt: new Date().toISOString(),
+		});
+		return response;
+	}
+
+	private load(task: LLMTask, key: string): CassetteEntry {
+		const entryPath = path.join(this.config.dir, `${key}.json`);
+		if (!fs.existsSync(entryPath)) {
+			throw new CassetteMissError(task, key, this.config.dir);
+		}
+		return JSON.parse(fs.readFileSync(entryPath, 'utf8')) as CassetteEntry;
+	}
+
+	private save(key: string, entry: CassetteEntry) {
+		fs.mkdirSync(this.config.dir, {recursive: true});
+		fs.writeFileSync(
+			path.join(this.config.dir, `${key}.json`),
+			JSON.stringify(entry, null, 2),
+		);
+	}
+}
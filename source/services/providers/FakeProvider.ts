@@ -0,0 +1,357 @@
+import path from 'node:path';
+import {
+	ChatRequest,
+	DocstringRequest,
+	LLMProvider,
+	ModelSelection,
+	SummarizeRequest,
+} from '../../types/llm.js';
+import {CodeItem, getFileStructure} from '../treesitter.js';
+import {collectSymbolSources, qualifySymbols} from '../StructuredDocs.js';
+
+export const FAKE_MODELS: ModelSelection = {
+	summary: 'fake',
+	docstring: 'fake',
+	chat: 'fake',
+};
+
+/**
+ * Deterministic provider that never touches the network.
+ * Responses are derived from the tree-sitter structure of the code, so the same
+ * request always produces the same response.
+ */
+export class FakeProvider implements LLMProvider {
+	readonly name = 'fake';
+	readonly models: ModelSelection = FAKE_MODELS;
+	readonly offline = true;
+
+	async summarize(request: SummarizeRequest): Promise<string> {
+		if (request.stage === 'symbols') {
+			// Content holds `### name (type, lines a-b)` sections with fenced source
+			const symbols = request.content
+				.split(/\n\n(?=### )/)
+				.map(section =>
+					section.match(/^### (\S+) \((\w+)[^)]*\)\n```\n([\s\S]*)\n```$/),
+				)
+				.filter(match => match !== null)
+				.map(([, name, type, source]) =>
+					describeSymbol(name!, type!, source!, isPython(request.filePath)),
+				);
+			return JSON.stringify({symbols});
+		}
+		if (request.stage === 'directory' || request.stage === 'project') {
+			// Content holds `### path (kind)` sections with each child's summary
+			const children = request.content
+				.split(/\n\n(?=### )/)
+				.map(section => section.match(/^### (.+) \((file|directory)\)\n?/))
+				.filter(match => match !== null)
+				.map(match => ({
+					childPath: match[1]!,
+					kind: match[2]!,
+					firstLine: match
+						.input!.slice(match[0].length)
+						.split('\n')
+						.find(line => line.trim())
+						?.replace(/^[-*]\s*(\*\*\w+\*\*:\s*)?/, ''),
+				}));
+			const fileCount = children.filter(child => child.kind === 'file').length;
+			const directoryCount = children.length - fileCount;
+			return [
+				`- **${request.stage === 'project' ? 'Architecture' : 'Purpose'}**: ${
+					request.stage === 'project'
+						? 'project'
+						: `directory \`${request.filePath}\``
+				} with ${fileCount} documented files and ${directoryCount} subdirectories`,
+				...children.map(
+					child => `- \`${child.childPath}\`: ${child.firstLine ?? '(empty)'}`,
+				),
+			].join('\n');
+		}
+		if (request.stage === 'merge') {
+			// Content holds the partial summaries; keep their items under a single purpose line
+			const partials = request.content.split('\n\n');
+			const itemLines = partials.flatMap(partial =>
+				partial.split('\n').filter(line => !line.startsWith('- **Purpose**')),
+			);
+			const purpose = `${request.fileType || 'plain'} file \`${
+				request.filePath
+			}\` (summarized in ${partials.length} parts)`;
+			if (request.format === 'json') {
+				return JSON.stringify({
+					purpose,
+					symbols: symbolsFromSummaryLines(itemLines),
+					exports: [],
+					sideEffects: [],
+					dependencies: [],
+					caveats: [],
+				});
+			}
+			return [`- **Purpose**: ${purpose}`, ...itemLines].join('\n');
+		}
+
+		const lineCount = request.content.split('\n').length;
+		const items =
+			getFileStructure(request.filePath, request.content)?.items ?? [];
+		const flatItems = flattenItems(items);
+		const plurals = {
+			class: 'classes',
+			method: 'methods',
+			function: 'functions',
+		};
+		const counts = (['class', 'method', 'function'] as const)
+			.map(type => {
+				const count = flatItems.filter(item => item.type === type).length;
+				return count > 0
+					? `${count} ${count === 1 ? type : plurals[type]}`
+					: '';
+			})
+			.filter(Boolean);
+		const purpose = `${request.fileType || 'plain'} file \`${
+			request.filePath
+		}\` (${lineCount} lines)${
+			counts.length > 0 ? ` defining ${counts.join(', ')}` : ''
+		}`;
+
+		if (request.format === 'json') {
+			return JSON.stringify({
+				purpose,
+				symbols: qualifySymbols(items).map(({name, item}) => ({
+					name,
+					summary: describeItem(item),
+				})),
+				exports: findExports(request.content, isPython(request.filePath)),
+				sideEffects: [],
+				dependencies: findDependencies(
+					request.content,
+					isPython(request.filePath),
+				),
+				caveats: findCaveats(request.content),
+			});
+		}
+
+		const lines = [`- **Purpose**: ${purpose}`];
+		const describeItems = (itemList: CodeItem[], depth: number) => {
+			for (const item of itemList) {
+				lines.push(`${'  '.repeat(depth)}- ${describeItem(item)}`);
+				if (item.children) describeItems(item.children, depth + 1);
+			}
+		};
+		describeItems(items, 0);
+		return lines.join('\n');
+	}
+
+	async generateDocstrings(request: DocstringRequest): Promise<string> {
+		const items =
+			getFileStructure(request.filePath, request.content)?.items ?? [];
+		const requested = new Set(request.symbols);
+		const symbols = collectSymbolSources(items, request.content)
+			.filter(source => requested.has(source.name))
+			.map(source =>
+				describeSymbol(
+					source.name,
+					source.item.type,
+					source.source,
+					isPython(request.filePath),
+				),
+			);
+		return JSON.stringify({symbols});
+	}
+
+	async *streamChat(request: ChatRequest): AsyncIterable<string> {
+		const files = readDocumentedFiles(request.system);
+		const keywords = request.prompt
+			.toLowerCase()
+			.split(/[^a-z0-9_.\/-]+/)
+			.filter(word => word.length > 2);
+		const matches = files
+			.map(file => ({
+				file,
+				score: keywords.filter(
+					word =>
+						file.path.toLowerCase().includes(word) ||
+						file.summary.toLowerCase().includes(word),
+				).length,
+			}))
+			.filter(match => match.score > 0)
+			.sort(
+				(a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path),
+			)
+			.slice(0, 5);
+
+		if (matches.length === 0) {
+			yield `I couldn't find anything about "${request.prompt}" in the documentation (${files.length} files documented).`;
+			return;
+		}
+
+		yield `Here is what the documentation says about "${request.prompt}":\n`;
+		for (const {file} of matches) {
+			const firstLine = file.summary.split('\n').find(line => line.trim());
+			yield `\n- ${file.path}: ${firstLine?.replace(/^[-*]\s*/, '') ?? ''}`;
+		}
+	}
+}
+
+function flattenItems(items: CodeItem[]): CodeItem[] {
+	return items.flatMap(item => [item, ...flattenItems(item.children ?? [])]);
+}
+
+/**
+ * Recovers qualified symbol names from the indented item lines of text summaries
+ */
+function symbolsFromSummaryLines(
+	lines: string[],
+): Array<{name: string; summary: string}> {
+	const parents: string[] = [];
+	const symbols: Array<{name: string; summary: string}> = [];
+	for (const line of lines) {
+		const match = line.match(
+			/^(\s*)- ((?:Class|Method|Function) `([^`]+)`.*)$/,
+		);
+		if (!match) continue;
+		const depth = Math.floor(match[1]!.length / 2);
+		parents.length = depth;
+		const name = [...parents, match[3]!].join('.');
+		parents.push(match[3]!);
+		symbols.push({name, summary: match[2]!});
+	}
+	return symbols;
+}
+
+/**
+ * Derives symbol documentation from the symbol's source: the first line is the
+ * signature, parameters and return type are read from it
+ */
+function describeSymbol(
+	name: string,
+	type: string,
+	source: string,
+	python: boolean,
+) {
+	const firstLine = source.split('\n').find(line => line.trim()) ?? '';
+	const signature = firstLine.trim().replace(/\s*[{:]\s*$/, '');
+	const paramList = signature.match(/\(([^)]*)\)/)?.[1] ?? '';
+	const params = paramList
+		.split(',')
+		.map(param => param.trim())
+		.filter(param => param && !/^(self|cls)$/.test(param))
+		.map(param => {
+			const [, paramName, paramType] =
+				param
+					.replace(/^(?:(?:public|private|protected|readonly)\s+)+/, '')
+					.match(/^\.{0,3}([\w$]+)\??\s*(?::\s*([^=]+?))?\s*(?:=.*)?$/) ?? [];
+			return {
+				name: paramName ?? param,
+				...(paramType && {type: paramType}),
+				description: `The \`${paramName ?? param}\` argument.`,
+			};
+		});
+	const returnType = python
+		? signature.match(/->\s*(.+)$/)?.[1]
+		: signature.match(/\)\s*:\s*([^=]+?)\s*(?:=>.*)?$/)?.[1];
+	const throwPattern = python ? /\braise\s+(\w+)/g : /\bthrow\s+new\s+(\w+)/g;
+	const shortName = name.split('.').pop();
+	return {
+		name,
+		signature,
+		description: `${type[0]!.toUpperCase()}${type.slice(1)} \`${shortName}\`.`,
+		params: type === 'class' ? [] : params,
+		returns:
+			returnType &&
+			type !== 'class' &&
+			!/^(void|never|undefined|None|NoReturn)$/.test(returnType.trim())
+				? {
+						type: returnType.trim(),
+						description: `The result of \`${shortName}\`.`,
+				  }
+				: null,
+		throws: [
+			...new Set([...source.matchAll(throwPattern)].map(match => match[1]!)),
+		],
+	};
+}
+
+function isPython(filePath: string): boolean {
+	return path.extname(filePath).toLowerCase() === '.py';
+}
+
+function findExports(content: string, python: boolean): string[] {
+	const names = new Set<string>();
+	if (python) {
+		// Python has no export syntax: public top-level definitions are the API
+		for (const match of content.matchAll(
+			/^(?:async\s+)?(?:def|class)\s+([A-Za-z]\w*)/gm,
+		)) {
+			names.add(match[1]!);
+		}
+		return [...names];
+	}
+	for (const match of content.matchAll(
+		/^export\s+(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(?:class|function\*?|const|let|var|interface|type|enum)\s+([\w$]+)/gm,
+	)) {
+		names.add(match[1]!);
+	}
+	return [...names];
+}
+
+function findDependencies(content: string, python: boolean): string[] {
+	const modules = new Set<string>();
+	const pattern = python
+		? /^(?:from\s+(\S+)\s+import|import\s+([\w.]+))/gm
+		: /(?:^import\s[^;]*?from\s+|^import\s+|\brequire\(\s*)['"]([^'"]+)['"]/gm;
+	for (const match of content.matchAll(pattern)) {
+		modules.add((match[1] ?? match[2])!);
+	}
+	return [...modules];
+}
+
+function findCaveats(content: string): string[] {
+	return [...content.matchAll(/(?:\/\/|#)\s*((?:TODO|FIXME|HACK)\b.*)$/gm)].map(
+		match => match[1]!.trim(),
+	);
+}
+
+function describeItem(item: CodeItem): string {
+	return `${item.type[0]!.toUpperCase()}${item.type.slice(1)} \`${
+		item.name
+	}\` (lines ${item.startLine}-${item.endLine})`;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Pulls the documented files out of the docs.json embedded in a chat system prompt
+ */
+function readDocumentedFiles(
+	system: string,
+): Array<{path: string; summary: string}> {
+	const contextStart = system.indexOf('## Documents Context');
+	const contextEnd = system.indexOf('## Conversation History');
+	const context = system.slice(
+		contextStart === -1 ? 0 : contextStart,
+		contextEnd === -1 ? undefined : contextEnd,
+	);
+	const start = context.indexOf('{');
+	const end = context.lastIndexOf('}');
+	if (start === -1 || end <= start) return [];
+	try {
+		const docs: unknown = JSON.parse(context.slice(start, end + 1));
+		const files =
+			isObject(docs) && isObject(docs['files'])
+				? Object.values(docs['files'])
+				: [];
+		const documented: Array<{path: string; summary: string}> = [];
+		for (const file of files) {
+			if (isObject(file) && typeof file['path'] === 'string') {
+				const summary = file['summary'];
+				documented.push({
+					path: file['path'],
+					summary: typeof summary === 'string' ? summary : '',
+				});
+			}
+		}
+		return documented;
+	} catch (error) {
+		return [];
+	}
+}
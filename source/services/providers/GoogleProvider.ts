@@ -0,0 +1,70 @@
+import {GoogleGenAI} from '@google/genai';
+import {streamText} from 'ai';
+import {createGoogleGenerativeAI} from '@ai-sdk/google';
+import {
+	ChatRequest,
+	DocstringRequest,
+	LLMProvider,
+	ModelSelection,
+	SummarizeRequest,
+} from '../../types/llm.js';
+
+export const GOOGLE_DEFAULT_MODELS: ModelSelection = {
+	summary: 'gemini-2.0-flash',
+	docstring: 'gemini-2.5-pro',
+	chat: 'gemini-2.5-pro-exp-03-25',
+};
+
+/**
+ * Provider backed by the Google Gemini API
+ */
+export class GoogleProvider implements LLMProvider {
+	readonly name = 'google';
+	readonly models: ModelSelection;
+	private genAI: GoogleGenAI;
+	private apiKey: string;
+
+	constructor(apiKey: string | undefined, models: ModelSelection) {
+		if (!apiKey) {
+			throw new Error(
+				'No Google API key: set GEMINI_API_KEY or GOOGLE_API_KEY, or save one in the configuration',
+			);
+		}
+		this.apiKey = apiKey;
+		this.models = models;
+		this.genAI = new GoogleGenAI({apiKey});
+	}
+
+	async summarize(request: SummarizeRequest): Promise<string> {
+		const response = await this.genAI.models.generateContent({
+			model: this.models.summary,
+			contents: request.prompt,
+			...(request.format === 'json' && {
+				config: {responseMimeType: 'application/json'},
+			}),
+		});
+		return response.text ?? '';
+	}
+
+	async generateDocstrings(request: DocstringRequest): Promise<string> {
+		const response = await this.genAI.models.generateContent({
+			model: this.models.docstring,
+			contents: request.prompt,
+			config: {responseMimeType: 'application/json'},
+		});
+		return response.text ?? '';
+	}
+
+	async *streamChat(request: ChatRequest): AsyncIterable<string> {
+		const googleClient = createGoogleGenerativeAI({
+			baseURL: 'https://generativelanguage.googleapis.com/v1beta',
+			apiKey: this.apiKey,
+		});
+		const result = streamText({
+			model: googleClient(this.models.chat),
+			system: request.system,
+			prompt: request.prompt,
+		});
+		yield* result.textStream;
+	}
+}
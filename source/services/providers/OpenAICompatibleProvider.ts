@@ -0,0 +1,137 @@
+import {
+	ChatRequest,
+	DocstringRequest,
+	LLMProvider,
+	ModelSelection,
+	SummarizeRequest,
+} from '../../types/llm.js';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export const OPENAI_DEFAULT_MODELS: ModelSelection = {
+	summary: 'gpt-4o-mini',
+	docstring: 'gpt-4o',
+	chat: 'gpt-4o',
+};
+
+interface ChatMessage {
+	role: 'system' | 'user';
+	content: string;
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat completions protocol
+ * (OpenAI itself, llama.cpp's server, Ollama, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly name = 'openai';
+	readonly models: ModelSelection;
+	private baseUrl: string;
+	private apiKey: string | undefined;
+
+	constructor(
+		baseUrl: string | undefined,
+		apiKey: string | undefined,
+		models: ModelSelection,
+	) {
+		this.baseUrl = (baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+		this.apiKey = apiKey;
+		this.models = models;
+	}
+
+	async summarize(request: SummarizeRequest): Promise<string> {
+		return this.complete(
+			this.models.summary,
+			[{role: 'user', content: request.prompt}],
+			request.format === 'json',
+		);
+	}
+
+	async generateDocstrings(request: DocstringRequest): Promise<string> {
+		return this.complete(
+			this.models.docstring,
+			[{role: 'user', content: request.prompt}],
+			true,
+		);
+	}
+
+	async *streamChat(request: ChatRequest): AsyncIterable<string> {
+		const response = await this.post({
+			model: this.models.chat,
+			messages: [
+				{role: 'system', content: request.system},
+				{role: 'user', content: request.prompt},
+			],
+			stream: true,
+		});
+		if (!response.body) return;
+
+		// Server-sent events: each event is a `data: {...}` line, terminated by `data: [DONE]`
+		const decoder = new TextDecoder();
+		const reader = response.body.getReader();
+		let buffered = '';
+		try {
+			while (true) {
+				const {done, value} = await reader.read();
+				if (done) return;
+				buffered += decoder.decode(value, {stream: true});
+				const lines = buffered.split('\n');
+				buffered = lines.pop() ?? '';
+				for (const line of lines) {
+					const trimmed = line.trim();
+					if (!trimmed.startsWith('data:')) continue;
+					const data = trimmed.slice('data:'.length).trim();
+					if (data === '[DONE]') return;
+					try {
+						const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+						if (delta) yield delta;
+					} catch (error) {
+						// Ignore keep-alive or malformed events
+					}
+				}
+			}
+		} finally {
+			// Closes the connection when the stream ends early or the caller stops reading
+			await reader.cancel();
+		}
+	}
+
+	private async complete(
+		model: string,
+		messages: ChatMessage[],
+		jsonMode = false,
+	): Promise<string> {
+		const response = await this.post({
+			model,
+			messages,
+			stream: false,
+			...(jsonMode && {response_format: {type: 'json_object'}}),
+		});
+		const json = await response.json();
+		return json.choices?.[0]?.message?.content ?? '';
+	}
+
+	private async post(body: Record<string, unknown>): Promise<Response> {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+		};
+		if (this.apiKey) {
+			headers['Authorization'] = `Bearer ${this.apiKey}`;
+		}
+		const response = await fetch(`${this.baseUrl}/chat/completions`, {
+			method: 'POST',
+			headers,
+			body: JSON.stringify(body),
+		});
+		if (!response.ok) {
+			const text = await response.text().catch(() => '');
+			throw Object.assign(
+				new Error(
+					`OpenAI-compatible request failed (${response.status}): ${text}`,
+				),
+				{status: response.status},
+			);
+		}
+		return response;
+	}
+}
@@ -9,13 +9,13 @@ const TypeScriptLang = TypeScriptModule.typescript;
 const TSXLang = TypeScriptModule.tsx;
 import * as crypto from 'crypto';
 import {generateDocStrings} from './DocStringManager.js';
-import {getDebugMode} from './ConfigManagement.js';
+import {createDebugLog} from './DebugLog.js';
 
 const IMPORTANT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.py'];
 
 // --- Define Serializable Structures ---
 
-interface CodeItem {
+export interface CodeItem {
 	type: 'class' | 'method' | 'function';
 	name: string;
 	startLine: number;
@@ -23,7 +23,7 @@ interface CodeItem {
 	children?: CodeItem[]; // For methods within classes
 }
 
-interface FileStructure {
+export interface FileStructure {
 	type: 'file_structure';
 	filePath: string; // Relative path from rootDir might be useful
 	items: CodeItem[];
@@ -47,28 +47,7 @@ interface ProjectCache {
 }
 
 // --- Debug Logging ---
-const DEBUG = getDebugMode();
-const LOGS_DIR = path.join(process.cwd(), 'logs');
-const LOG_FILE = path.join(LOGS_DIR, 'catdoc-debug.log');
-
-const debugLog = (message: string) => {
-	if (DEBUG) {
-		if (!fs.existsSync(LOGS_DIR)) {
-			try {
-				fs.mkdirSync(LOGS_DIR, {recursive: true});
-			} catch (error) {
-				return; // Cannot log error, fail silently
-			}
-		}
-		const timestamp = new Date().toISOString();
-		const logMessage = `[${timestamp}] ${message}\n`;
-		try {
-			fs.appendFileSync(LOG_FILE, logMessage);
-		} catch (error) {
-			// Silently fail
-		}
-	}
-};
+const debugLog = createDebugLog();
 
 // --- Language and Parsing ---
 
@@ -117,6 +96,32 @@ export function parseFile(
 	language: Language;
 	scheme: string;
 	fileContents: string;
+} | null {
+	try {
+		const fileContents = fs.readFileSync(filePath, {
+			encoding: 'utf8',
+			flag: 'r',
+		});
+		return parseSource(filePath, fileContents, parser);
+	} catch (error) {
+		debugLog(`Error parsing file ${filePath}: ${error}`);
+		return null;
+	}
+}
+
+/**
+ * Parses in-memory source code, picking the grammar from the file extension.
+ * Useful when the content differs from what is on disk (editor buffers, generated code).
+ */
+export function parseSource(
+	filePath: string,
+	fileContents: string,
+	parser: Parser,
+): {
+	tree: Tree;
+	language: Language;
+	scheme: string;
+	fileContents: string;
 } | null {
 	try {
 		const langInfo = getLanguageAndQueryScheme(filePath);
@@ -130,10 +135,6 @@ export function parseFile(
 			`Parser language set to: ${language.toString()} for scheme: ${scheme} file: ${filePath}`,
 		);
 
-		const fileContents = fs.readFileSync(filePath, {
-			encoding: 'utf8',
-			flag: 'r',
-		});
 		const tree = parser.parse(fileContents);
 		// debugLog(`Successfully parsed file: ${filePath}`);
 		return {tree, language, scheme, fileContents};
@@ -143,6 +144,30 @@ export function parseFile(
 	}
 }
 
+/**
+ * Extracts the classes, methods and functions of a source file without touching the
+ * tree JSON or cache.
+ *
+ * @param filePath Path used for language detection and recorded in the result
+ * @param fileContents Source code to analyse
+ * @returns The file structure, or null for unsupported or unparsable files
+ */
+export function getFileStructure(
+	filePath: string,
+	fileContents: string,
+): FileStructure | null {
+	const parseResult = parseSource(filePath, fileContents, new Parser());
+	if (!parseResult) return null;
+	const {tree, language, scheme} = parseResult;
+	return extractStructure(
+		tree,
+		language,
+		scheme,
+		filePath,
+		generateHash(fileContents),
+	);
+}
+
 export function generateHash(content: string) {
 	return crypto.createHash('md5').update(content).digest('hex');
 }
@@ -1011,7 +1036,7 @@ export async function generateDirectoryTreeJson(
 					) {
 						const fullPath = path.join(rootDir, relativeFilePath); // Construct full path
 						debugLog(`Generating docstrings for ${relativeFilePath}`);
-						await generateDocStrings(fullPath);
+						await generateDocStrings(fullPath, rootDir);
 					}
 				} catch (error) {
 					debugLog(
@@ -6,11 +6,75 @@ export interface FileDocumentation {
 	hash?: string; // Git hash when last documented
 	preview: string;
 	lastModified: number;
+	contentHash?: string; // Hash of the file content the summary was generated from
+	chunks?: number; // Set when the file was too large for one prompt and summarized in chunks
+	structured?: StructuredDocumentation; // Validated fields the summary text is rendered from
+	symbols?: Record<string, SymbolDocumentation>; // Keyed by qualified tree-sitter name
+	failedSymbols?: string[]; // Symbols left undocumented by a failure, retried next time
 }
+
+export interface SymbolParameter {
+	name: string;
+	type?: string;
+	description: string;
+}
+
+export interface SymbolDocumentation {
+	name: string; // Qualified tree-sitter name, e.g. `DocManager.saveDocs`
+	type: 'class' | 'method' | 'function';
+	startLine: number;
+	endLine: number;
+	hash: string; // Hash of the symbol's own source; a change re-documents only this symbol
+	signature: string;
+	description: string;
+	params: SymbolParameter[];
+	returns?: {type?: string; description: string};
+	throws: string[];
+	remarks?: string; // Discussion beyond the description, for styles with a place for it
+	example?: string; // Usage example code
+}
+
+export interface SymbolSummary {
+	name: string; // Qualified tree-sitter name, e.g. `DocManager.saveDocs`
+	type: 'class' | 'method' | 'function';
+	startLine: number;
+	endLine: number;
+	summary: string;
+}
+
+export interface StructuredDocumentation {
+	purpose: string;
+	symbols: SymbolSummary[];
+	exports: string[]; // Names the file makes available to other modules
+	sideEffects: string[]; // I/O, global state, network, process exits...
+	dependencies: string[]; // Imported modules and external services
+	caveats: string[];
+}
+export interface DocumentationUpdate {
+	changed: string[]; // Relative paths whose documentation was (re)generated
+	removed: string[]; // Relative paths whose documentation was removed
+}
+
+export interface DeadLetter {
+	path: string;
+	error: string;
+	retryable: boolean; // Whether the last error was transient (rate limit, timeout...)
+	failedAt: string;
+}
+
+export interface DirectoryDocumentation {
+	path: string; // Relative directory path, '.' for the project root
+	summary: string; // Architecture overview for the root, directory overview otherwise
+	childrenHash: string; // Hash of the child summaries the rollup was generated from
+	children: string[]; // Relative paths of the files and subdirectories summarized
+	lastUpdated: string;
+}
+
 export interface ProjectDocumentation {
 	version: string;
 	lastUpdated: string;
 	files: Record<string, FileDocumentation>;
+	directories?: Record<string, DirectoryDocumentation>; // Rollups keyed by relative path
 }
 
 export interface FileNode {
@@ -29,6 +93,7 @@ export interface FileTreeProps {
 	level?: number;
 	parentPath?: string;
 	height?: number; // Add height prop
+	coverage?: Record<string, number>; // Docstring coverage percent by node path
 }
 
 export interface GraphDoc {
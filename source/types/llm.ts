@@ -0,0 +1,42 @@
+export type LLMTask = 'summary' | 'docstring' | 'chat';
+
+export type ModelSelection = Record<LLMTask, string>;
+
+export type SummaryStage =
+	| 'file'
+	| 'chunk'
+	| 'merge'
+	| 'directory'
+	| 'project'
+	| 'symbols';
+
+export interface SummarizeRequest {
+	filePath: string; // Relative path of the file (or directory, for rollups) being summarized
+	fileType: string;
+	content: string; // File content, one chunk of it, or the partial/child summaries to combine
+	prompt: string;
+	stage?: SummaryStage; // Defaults to 'file'
+	format?: 'text' | 'json'; // 'json' when the prompt asks for structured documentation
+}
+
+export interface DocstringRequest {
+	filePath: string;
+	fileType: string;
+	content: string;
+	prompt: string;
+	symbols: string[]; // Qualified names of the symbols to document
+}
+
+export interface ChatRequest {
+	system: string;
+	prompt: string;
+}
+
+export interface LLMProvider {
+	readonly name: string;
+	readonly models: ModelSelection;
+	readonly offline?: boolean; // True when responses never come from a model, so calls aren't rate-limited
+	summarize(request: SummarizeRequest): Promise<string>;
+	generateDocstrings(request: DocstringRequest): Promise<string>; // JSON matching SYMBOL_DOC_SCHEMA
+	streamChat(request: ChatRequest): AsyncIterable<string>;
+}
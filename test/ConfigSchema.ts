@@ -0,0 +1,88 @@
+import test from 'ava';
+import {
+	validateConfig,
+	validateSecrets,
+} from '../source/services/ConfigSchema.js';
+
+test('valid settings are kept without problems', t => {
+	const raw = {
+		provider: 'openai',
+		models: {summary: 'small', chat: 'large'},
+		openai_base_url: 'http://localhost:11434/v1',
+		rate_limit: {requests_per_minute: 10, max_retries: 0},
+		ignore: ['**/*.test.ts'],
+		output_dir: 'build/docs',
+		docstring_style: ['tsdoc', 'numpy'],
+		docstring_styles: {'legacy/**': 'jsdoc'},
+	};
+	t.deepEqual(validateConfig(raw), {config: raw, problems: []});
+});
+
+test('invalid settings are dropped and the rest still applies', t => {
+	const {config, problems} = validateConfig({
+		concurrency: 0,
+		provider: 'anthropic',
+		debug_mode: true,
+	});
+	t.deepEqual(config, {debug_mode: true});
+	t.deepEqual(problems, [
+		'"concurrency" must be a positive integer, got 0',
+		'"provider" must be one of "google", "openai", "fake", got "anthropic"',
+	]);
+});
+
+test('misspelled keys are reported with a suggestion', t => {
+	const {config, problems} = validateConfig({
+		concurency: 2,
+		rate_limit: {request_per_minute: 5},
+	});
+	t.deepEqual(config, {});
+	t.deepEqual(problems, [
+		'"concurency" is not a known setting (did you mean "concurrency"?)',
+		'"rate_limit.request_per_minute" is not a known setting (did you mean "requests_per_minute"?)',
+	]);
+});
+
+test('nested values are checked with their full key', t => {
+	const {problems} = validateConfig({
+		ignore: ['dist', ''],
+		docstring_styles: {'**/*.py': 'rst'},
+	});
+	t.deepEqual(problems, [
+		'"ignore[1]" must be a non-empty string, got ""',
+		'"docstring_styles.**/*.py" must be one of "tsdoc", "jsdoc", "google", "numpy", "sphinx", got "rst"',
+	]);
+});
+
+test('output and cassette directories must stay inside the project', t => {
+	for (const dir of ['/tmp/docs', '../docs', 'docs/../../elsewhere', '.', '']) {
+		const {config, problems} = validateConfig({
+			output_dir: dir,
+			cassette: {mode: 'record', dir},
+		});
+		t.deepEqual(config, {}, dir);
+		t.is(problems.length, 2, dir);
+	}
+	t.deepEqual(
+		validateConfig({output_dir: 'docs', cassette: {dir: 'test/cassettes'}})
+			.problems,
+		[],
+	);
+});
+
+test('a file that is not an object is rejected as a whole', t => {
+	t.deepEqual(validateConfig(['provider']), {
+		config: {},
+		problems: ['must be a JSON object'],
+	});
+});
+
+test('the secrets file may only hold API keys', t => {
+	const {config, problems} = validateSecrets({
+		openai_api_key: 'sk-test',
+		provider: 'openai',
+	});
+	t.deepEqual(config, {openai_api_key: 'sk-test'});
+	t.is(problems.length, 1);
+	t.regex(problems[0]!, /"provider" is not a known setting/);
+});
@@ -0,0 +1,112 @@
+import test from 'ava';
+import {
+	DocstringVerificationError,
+	spliceDocstrings,
+	verifyOnlyDocstringsChanged,
+} from '../source/services/DocstringSplicer.js';
+import {SymbolDocumentation} from '../source/types/docs.js';
+
+const typescript = [
+	'export function add(a: number, b: number) {',
+	'\treturn a + b; // Sum',
+	'}',
+	'',
+].join('\n');
+
+const python = ['def greet(name):', '    return f"hello {name}"', ''].join(
+	'\n',
+);
+
+test('comments and docstrings may change', t => {
+	t.notThrows(() =>
+		verifyOnlyDocstringsChanged(
+			'math.ts',
+			typescript,
+			`/**\n * Adds two numbers\n */\n${typescript.replace('// Sum', '')}`,
+		),
+	);
+	t.notThrows(() =>
+		verifyOnlyDocstringsChanged(
+			'greet.py',
+			python,
+			python.replace(
+				'def greet(name):\n',
+				'def greet(name):\n    """Greets someone by name."""\n',
+			),
+		),
+	);
+});
+
+test('a changed token is refused and named', t => {
+	const error = t.throws(
+		() =>
+			verifyOnlyDocstringsChanged(
+				'math.ts',
+				typescript,
+				`/** Adds */\n${typescript.replace('a + b', 'a - b')}`,
+			),
+		{instanceOf: DocstringVerificationError},
+	);
+	t.is(
+		error?.message,
+		'Docstrings would change the code of math.ts: token 15 "+" became "-"',
+	);
+});
+
+test('text inside template literals counts as code', t => {
+	const source = 'export const greeting = (name: string) => `hello ${name}`;\n';
+	t.throws(
+		() =>
+			verifyOnlyDocstringsChanged(
+				'greeting.ts',
+				source,
+				source.replace('hello', 'goodbye'),
+			),
+		{instanceOf: DocstringVerificationError},
+	);
+});
+
+test('a Python string that is not a docstring counts as code', t => {
+	t.throws(
+		() =>
+			verifyOnlyDocstringsChanged(
+				'greet.py',
+				python,
+				python.replace('hello', 'goodbye'),
+			),
+		{instanceOf: DocstringVerificationError},
+	);
+});
+
+test('edits that break the syntax are refused', t => {
+	t.throws(
+		() =>
+			verifyOnlyDocstringsChanged(
+				'math.ts',
+				typescript,
+				`/** Adds\n${typescript}`,
+			),
+		{instanceOf: DocstringVerificationError},
+	);
+});
+
+test('spliced docstrings land above their symbol', t => {
+	const symbol: SymbolDocumentation = {
+		name: 'add',
+		type: 'function',
+		startLine: 1,
+		endLine: 3,
+		hash: '',
+		signature: 'add(a: number, b: number)',
+		description: 'Adds two numbers',
+		params: [],
+		throws: [],
+	};
+	const spliced = spliceDocstrings('math.ts', typescript, [symbol], {
+		style: 'tsdoc',
+		indentUnit: '\t',
+	});
+	t.deepEqual(spliced.inserted, ['add']);
+	t.deepEqual(spliced.skipped, []);
+	t.is(spliced.content, `/** Adds two numbers */\n${typescript}`);
+});
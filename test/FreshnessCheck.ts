@@ -0,0 +1,102 @@
+import test from 'ava';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {DocManager} from '../source/services/DocManager.js';
+import {
+	FreshnessReport,
+	checkFreshness,
+	thresholdViolations,
+} from '../source/services/FreshnessCheck.js';
+import {generateHash} from '../source/services/treesitter.js';
+
+// A project with one fresh, two stale, one undocumented and one deleted file
+async function checkProject(): Promise<FreshnessReport> {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'catdoc-check-test-'));
+	const files: Record<string, string> = {
+		'src/fresh.ts': 'export const fresh = 1;\n',
+		'src/stale.ts': 'export const stale = 2;\n',
+		'src/legacy.ts': 'export const legacy = 3;\n',
+		'src/missing.ts': 'export const missing = 4;\n',
+	};
+	for (const [file, content] of Object.entries(files)) {
+		fs.mkdirSync(path.join(root, path.dirname(file)), {recursive: true});
+		fs.writeFileSync(path.join(root, file), content);
+	}
+	const entry = (file: string, contentHash?: string) => ({
+		path: file,
+		lastUpdated: '2024-01-01T00:00:00.000Z',
+		summary: `Summary of ${file}`,
+		type: 'TypeScript',
+		hash: '',
+		...(contentHash && {contentHash}),
+	});
+	fs.mkdirSync(path.join(root, 'docs'));
+	fs.writeFileSync(
+		path.join(root, 'docs', 'docs.json'),
+		JSON.stringify({
+			version: '1.0.0',
+			lastUpdated: '2024-01-01T00:00:00.000Z',
+			files: {
+				'src/fresh.ts': entry(
+					'src/fresh.ts',
+					generateHash(files['src/fresh.ts']!),
+				),
+				'src/stale.ts': entry(
+					'src/stale.ts',
+					generateHash('export const stale = 1;\n'),
+				),
+				'src/legacy.ts': entry('src/legacy.ts'),
+				'src/gone.ts': entry('src/gone.ts', generateHash('')),
+			},
+		}),
+	);
+
+	const docManager = new DocManager(root);
+	try {
+		return await checkFreshness(docManager);
+	} finally {
+		await docManager.shutdown();
+		fs.rmSync(root, {recursive: true, force: true});
+	}
+}
+
+test('documented files are compared by content hash', async t => {
+	const report = await checkProject();
+	t.is(report.workspaceFiles, 4);
+	t.is(report.documented, 4);
+	t.is(report.fresh, 1);
+	t.deepEqual(
+		report.stale.map(file => file.path),
+		['src/legacy.ts', 'src/stale.ts'],
+	);
+	const stale = report.stale.find(file => file.path === 'src/stale.ts');
+	t.is(stale?.recordedHash, generateHash('export const stale = 1;\n'));
+	t.is(stale?.currentHash, generateHash('export const stale = 2;\n'));
+	// Documentation older than content hashing has nothing to compare with
+	t.false(
+		'recordedHash' in report.stale.find(file => file.path === 'src/legacy.ts')!,
+	);
+	t.deepEqual(report.missing, ['src/missing.ts']);
+	t.deepEqual(report.orphaned, ['src/gone.ts']);
+	t.deepEqual(report.percentages, {stale: 66.67, missing: 25, orphaned: 25});
+});
+
+test('thresholds are exceeded only above their limit', async t => {
+	const report = await checkProject();
+	t.deepEqual(
+		thresholdViolations(report, {maxStale: 50, maxMissing: 25, maxOrphaned: 0}),
+		[
+			'66.67% of documented files are stale (limit 50%)',
+			'25% of documentation entries are orphaned (limit 0%)',
+		],
+	);
+	t.deepEqual(
+		thresholdViolations(report, {
+			maxStale: 100,
+			maxMissing: 100,
+			maxOrphaned: 100,
+		}),
+		[],
+	);
+});
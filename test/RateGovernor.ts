@@ -0,0 +1,83 @@
+import test from 'ava';
+import {
+	RateGovernor,
+	isRetryableError,
+} from '../source/services/RateGovernor.js';
+
+const limits = {requestsPerMinute: 100, tokensPerMinute: 100_000};
+
+// A call that fails with each error in turn, then succeeds
+const failingCall = (errors: unknown[]) => {
+	let calls = 0;
+	const call = async () => {
+		const error = errors[calls++];
+		if (error) throw error;
+		return 'done';
+	};
+	return {call, calls: () => calls};
+};
+
+const withoutJitter = async <T>(run: () => Promise<T>): Promise<T> => {
+	const random = Math.random;
+	Math.random = () => 0;
+	try {
+		return await run();
+	} finally {
+		Math.random = random;
+	}
+};
+
+test('transient failures are retryable, permanent ones are not', t => {
+	t.true(isRetryableError(Object.assign(new Error('x'), {status: 429})));
+	t.true(isRetryableError(Object.assign(new Error('x'), {status: 503})));
+	t.false(isRetryableError(Object.assign(new Error('x'), {status: 400})));
+	t.true(isRetryableError(new Error('RESOURCE_EXHAUSTED: quota exceeded')));
+	t.true(isRetryableError(new Error('request failed: socket hang up')));
+	t.false(isRetryableError(new Error('API key not valid')));
+	// A status code decides over the message
+	t.false(
+		isRetryableError(Object.assign(new Error('rate limit'), {status: 401})),
+	);
+});
+
+test.serial('retries back off exponentially before succeeding', async t => {
+	const {call, calls} = failingCall([
+		Object.assign(new Error('busy'), {status: 503}),
+		Object.assign(new Error('busy'), {status: 503}),
+	]);
+	const governor = new RateGovernor({...limits, maxRetries: 2});
+	const started = Date.now();
+	t.is(await withoutJitter(() => governor.run(10, call)), 'done');
+	// Without jitter the waits are half of 1 s and 2 s
+	t.true(Date.now() - started >= 1400);
+	t.is(calls(), 3);
+});
+
+test.serial('the last error is thrown once retries run out', async t => {
+	const {call, calls} = failingCall([
+		new Error('429 Too Many Requests'),
+		new Error('429 Too Many Requests, again'),
+	]);
+	const governor = new RateGovernor({...limits, maxRetries: 1});
+	await t.throwsAsync(
+		withoutJitter(() => governor.run(10, call)),
+		{message: '429 Too Many Requests, again'},
+	);
+	t.is(calls(), 2);
+});
+
+test('permanent failures are not retried', async t => {
+	const {call, calls} = failingCall([new Error('API key not valid')]);
+	const governor = new RateGovernor({...limits, maxRetries: 3});
+	await t.throwsAsync(governor.run(10, call), {message: 'API key not valid'});
+	t.is(calls(), 1);
+});
+
+test('a request over the token budget runs on an empty window', async t => {
+	const governor = new RateGovernor({
+		requestsPerMinute: 1,
+		tokensPerMinute: 10,
+		maxRetries: 0,
+	});
+	t.is(await governor.run(1000, async () => 'done'), 'done');
+});
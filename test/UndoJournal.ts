@@ -0,0 +1,94 @@
+import test, {ExecutionContext} from 'ava';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+	parseSince,
+	readJournal,
+	undoWrites,
+	writeFileWithJournal,
+} from '../source/services/UndoJournal.js';
+
+function tempProject(t: ExecutionContext): string {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'catdoc-undo-test-'));
+	t.teardown(() => fs.rmSync(root, {recursive: true, force: true}));
+	return root;
+}
+
+const read = (filePath: string) => fs.readFileSync(filePath, 'utf8');
+
+test('parseSince reads durations relative to now', t => {
+	const now = new Date('2024-05-01T12:00:00Z');
+	t.deepEqual(parseSince('30m', now), new Date('2024-05-01T11:30:00Z'));
+	t.deepEqual(parseSince(' 2h ', now), new Date('2024-05-01T10:00:00Z'));
+	t.deepEqual(parseSince('1d', now), new Date('2024-04-30T12:00:00Z'));
+	t.deepEqual(parseSince('45 s', now), new Date('2024-05-01T11:59:15Z'));
+});
+
+test('parseSince reads dates and rejects anything else', t => {
+	t.deepEqual(
+		parseSince('2024-04-01T08:00:00Z'),
+		new Date('2024-04-01T08:00:00Z'),
+	);
+	t.is(parseSince('yesterday'), null);
+	t.is(parseSince('3w'), null);
+});
+
+test('undo restores the most recent write only', t => {
+	const root = tempProject(t);
+	const file = path.join(root, 'a.ts');
+	fs.writeFileSync(file, 'original');
+	writeFileWithJournal(root, file, 'first', 'docstrings');
+	writeFileWithJournal(root, file, 'second', 'docstrings');
+
+	const result = undoWrites(root);
+	t.is(result.restored.length, 1);
+	t.deepEqual(result.conflicts, []);
+	t.is(read(file), 'first');
+
+	undoWrites(root);
+	t.is(read(file), 'original');
+	t.true(readJournal(root).every(entry => entry.undoneAt));
+});
+
+test('undo deletes files catdoc created', t => {
+	const root = tempProject(t);
+	const file = path.join(root, '.gitignore');
+	writeFileWithJournal(root, file, 'docs/\n', 'gitignore');
+
+	t.is(undoWrites(root).restored.length, 1);
+	t.false(fs.existsSync(file));
+});
+
+test('a file edited since catdoc wrote it is a conflict, with its older writes', t => {
+	const root = tempProject(t);
+	const file = path.join(root, 'a.ts');
+	const other = path.join(root, 'b.ts');
+	fs.writeFileSync(file, 'original');
+	fs.writeFileSync(other, 'other');
+	const since = new Date(Date.now() - 1000);
+	writeFileWithJournal(root, file, 'first', 'docstrings');
+	writeFileWithJournal(root, other, 'other documented', 'docstrings');
+	writeFileWithJournal(root, file, 'second', 'docstrings');
+	fs.writeFileSync(file, 'second, edited by hand');
+
+	const result = undoWrites(root, {since});
+	t.deepEqual(
+		result.restored.map(entry => entry.path),
+		['b.ts'],
+	);
+	t.deepEqual(
+		result.conflicts.map(conflict => conflict.reason),
+		[
+			'edited since catdoc wrote it (use --force to restore anyway)',
+			'a later write to this file could not be undone',
+		],
+	);
+	t.is(read(file), 'second, edited by hand');
+	t.is(read(other), 'other');
+
+	// Conflicting entries stay pending, so a forced undo can still restore them
+	const forced = undoWrites(root, {since, force: true});
+	t.is(forced.restored.length, 2);
+	t.is(read(file), 'original');
+});